@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { USER_ADDRESS_PARAM_DEFAULT, USER_ADDRESS_PARAM_EXTERNAL_EIP4361 } from '@nucypher/taco-auth';
+import { ethers } from 'ethers';
+import { OptionSelect } from './blocks/OptionSelect';
+import { formatDuration } from '../utils/time';
+import {
+  checkSignedSiweMessage,
+  MAX_SIWE_AGE_MINUTES,
+  parseSiweExpiry,
+  SignedSiweMessage,
+  SiweOptions,
+  UserAddressAuthMethod
+} from '../utils/siwe';
+
+interface AuthMethodFormProps {
+  // The user address variables the condition reads
+  variables: string[];
+  method: UserAddressAuthMethod;
+  onMethodChange: (method: UserAddressAuthMethod) => void;
+  siweOptions: SiweOptions;
+  onSiweOptionsChange: (options: SiweOptions) => void;
+  // Signed elsewhere and pasted in, for :userAddress
+  presigned: SignedSiweMessage;
+  onPresignedChange: (signed: SignedSiweMessage) => void;
+  // Signed elsewhere and pasted in, for :userAddressExternalEIP4361
+  external: SignedSiweMessage;
+  onExternalChange: (signed: SignedSiweMessage) => void;
+}
+
+const METHOD_OPTIONS = [
+  { value: 'wallet', label: 'Sign in with wallet' },
+  { value: 'presigned', label: 'Paste a signed SIWE message' },
+  { value: 'eip1271', label: 'Paste a smart account SIWE message (EIP-1271)' }
+];
+
+const inputClassName = `w-full px-2 py-1.5 text-sm bg-black/30 border border-white/5 rounded
+  focus:outline-none focus:border-white/20 placeholder-white/20`;
+
+// Message and signature fields, with the signer and expiry of what was pasted
+const SignedMessageFields: React.FC<{
+  value: SignedSiweMessage;
+  onChange: (signed: SignedSiweMessage) => void;
+  // Also accept signatures the address's contract accepts, checked over the connected wallet
+  allowContractSignatures?: boolean;
+}> = ({ value, onChange, allowContractSignatures = false }) => {
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+
+  // Contract signatures are checked on chain, so the result arrives after the fields change
+  useEffect(() => {
+    setStatus('');
+    setError('');
+    if (!value.message.trim() || !value.signature.trim()) return;
+
+    let cancelled = false;
+    const provider = allowContractSignatures && window.ethereum
+      ? new ethers.providers.Web3Provider(window.ethereum)
+      : undefined;
+    checkSignedSiweMessage(value, provider)
+      .then(({ address, issuedAt, expirationTime, isContractSignature }) => {
+        if (cancelled) return;
+        const maxAge = Date.parse(issuedAt) + MAX_SIWE_AGE_MINUTES * 60 * 1000;
+        const expiresAt = expirationTime ? Math.min(Date.parse(expirationTime), maxAge) : maxAge;
+        const signer = isContractSignature ? `the contract at ${address} (EIP-1271)` : address;
+        setStatus(`Signed by ${signer} · accepted for ${formatDuration((expiresAt - Date.now()) / 1000)}`);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [value, allowContractSignatures]);
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={value.message}
+        onChange={(e) => onChange({ ...value, message: e.target.value })}
+        placeholder={'example.com wants you to sign in with your Ethereum account:\n0x…'}
+        rows={5}
+        spellCheck={false}
+        className={`${inputClassName} font-mono text-xs resize-y`}
+      />
+      <input
+        type="text"
+        value={value.signature}
+        onChange={(e) => onChange({ ...value, signature: e.target.value })}
+        placeholder="Signature (0x…)"
+        autoComplete="off"
+        data-form-type="other"
+        className={`${inputClassName} font-mono`}
+      />
+      {status && <span className="block text-xs text-white/40 font-mono break-all">{status}</span>}
+      {error && <span className="block text-xs text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+const AuthMethodForm: React.FC<AuthMethodFormProps> = ({
+  variables,
+  method,
+  onMethodChange,
+  siweOptions,
+  onSiweOptionsChange,
+  presigned,
+  onPresignedChange,
+  external,
+  onExternalChange
+}) => {
+  let expiryError = '';
+  try {
+    parseSiweExpiry(siweOptions.expiryMinutes);
+  } catch (err) {
+    expiryError = err instanceof Error ? err.message : String(err);
+  }
+
+  return (
+    <div className="p-4 bg-white/5 border border-white/5 rounded-lg space-y-4">
+      <div className="space-y-1">
+        <label className="block text-sm font-diatype font-bold text-white/80">
+          Authentication
+        </label>
+        <p className="text-xs text-white/40">
+          The condition checks the user&apos;s address, which is proven with a Sign-In with Ethereum message.
+        </p>
+      </div>
+
+      {variables.includes(USER_ADDRESS_PARAM_DEFAULT) && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-mono text-white/70">{USER_ADDRESS_PARAM_DEFAULT}</span>
+            <OptionSelect
+              value={method}
+              options={METHOD_OPTIONS}
+              onChange={(option: string) => onMethodChange(option as UserAddressAuthMethod)}
+              title="How the address is proven"
+            />
+          </div>
+
+          {method === 'wallet' ? (
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={siweOptions.statement}
+                onChange={(e) => onSiweOptionsChange({ ...siweOptions, statement: e.target.value })}
+                placeholder="Statement shown in the wallet (optional)"
+                autoComplete="off"
+                data-form-type="other"
+                className={inputClassName}
+              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={siweOptions.domain}
+                  onChange={(e) => onSiweOptionsChange({ ...siweOptions, domain: e.target.value })}
+                  placeholder={`Domain (${typeof window !== 'undefined' ? window.location.host : 'this site'})`}
+                  autoComplete="off"
+                  data-form-type="other"
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  value={siweOptions.expiryMinutes}
+                  onChange={(e) => onSiweOptionsChange({ ...siweOptions, expiryMinutes: e.target.value })}
+                  placeholder="Expires in (minutes)"
+                  autoComplete="off"
+                  data-form-type="other"
+                  className={`${inputClassName} w-44`}
+                />
+              </div>
+              {expiryError && <span className="block text-xs text-red-400">{expiryError}</span>}
+              <p className="text-xs text-white/30">
+                A sign-in is reused for the address and domain until it expires, unless the statement or
+                expiry changes; nodes accept it for up to {MAX_SIWE_AGE_MINUTES} minutes after it is issued.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <SignedMessageFields
+                value={presigned}
+                onChange={onPresignedChange}
+                allowContractSignatures={method === 'eip1271'}
+              />
+              {method === 'eip1271' && (
+                <p className="text-xs text-white/30">
+                  The signature is checked with the account&apos;s contract on the connected network. The
+                  installed TACo SDK can only send EIP-4361 signatures to the nodes, which check them by
+                  recovering the signer, so the nodes may not accept a smart account&apos;s signature.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {variables.includes(USER_ADDRESS_PARAM_EXTERNAL_EIP4361) && (
+        <div className="space-y-2">
+          <span className="block text-xs font-mono text-white/70">{USER_ADDRESS_PARAM_EXTERNAL_EIP4361}</span>
+          <p className="text-xs text-white/40">
+            Paste the SIWE message and signature produced by the external sign-in.
+          </p>
+          <SignedMessageFields value={external} onChange={onExternalChange} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuthMethodForm;
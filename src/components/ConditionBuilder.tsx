@@ -1,10 +1,11 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import BlockPalette from './blocks/BlockPalette';
 import BlockWorkspace from './blocks/BlockWorkspace';
+import { Block } from './blocks/BlockTypes';
 import { TacoCondition } from '../types/taco';
 
 interface ConditionBuilderProps {
@@ -12,6 +13,8 @@ interface ConditionBuilderProps {
 }
 
 const ConditionBuilder: React.FC<ConditionBuilderProps> = ({ onConditionChange }) => {
+  const [blocks, setBlocks] = useState<Block[]>([]);
+
   return (
     <DndProvider backend={HTML5Backend}>
       <div className="grid grid-cols-12 gap-6 h-full">
@@ -22,7 +25,11 @@ const ConditionBuilder: React.FC<ConditionBuilderProps> = ({ onConditionChange }
         </div>
         
         <div className="col-span-9 h-full">
-          <BlockWorkspace onConditionChange={onConditionChange} />
+          <BlockWorkspace
+            blocks={blocks}
+            onBlocksChange={setBlocks}
+            onConditionChange={onConditionChange}
+          />
         </div>
       </div>
     </DndProvider>
@@ -0,0 +1,282 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Block } from './blocks/BlockTypes';
+import { SettingsConfig } from './Settings';
+import { ContextVariable } from '../utils/contextVariables';
+import {
+  LibraryEntry,
+  createLibraryEntry,
+  duplicateLibraryEntry,
+  exportLibrary,
+  loadLibrary,
+  mergeLibraryEntries,
+  parseLibraryFile,
+  saveLibrary,
+  searchLibrary
+} from '../utils/conditionLibrary';
+
+interface ConditionLibraryProps {
+  blocks: Block[];
+  settings: SettingsConfig;
+  contextVariables: ContextVariable[];
+  isOpen: boolean;
+  onClose: () => void;
+  onLoad: (entry: LibraryEntry) => void;
+}
+
+const inputClassName = `w-full px-3 py-2 bg-white/5 text-white border border-white/10 rounded-lg
+  placeholder-white/30 text-sm
+  focus:outline-none focus:ring-1 focus:ring-white/20 focus:border-white/20
+  transition-all duration-200`;
+
+const buttonClassName = `px-3 py-1.5 bg-white/5 text-white/80 rounded-lg text-sm
+  border border-white/10 transition-all duration-200
+  hover:bg-white/10 hover:border-white/20
+  focus:outline-none focus:ring-1 focus:ring-white/20
+  disabled:opacity-50 disabled:cursor-not-allowed`;
+
+const ConditionLibrary: React.FC<ConditionLibraryProps> = ({
+  blocks,
+  settings,
+  contextVariables,
+  isOpen,
+  onClose,
+  onLoad
+}) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [description, setDescription] = useState('');
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Re-read storage on open so changes made in other tabs show up
+  useEffect(() => {
+    if (isOpen) {
+      setEntries(loadLibrary());
+    }
+  }, [isOpen]);
+
+  const visibleEntries = useMemo(() => searchLibrary(entries, query), [entries, query]);
+
+  const updateEntries = (nextEntries: LibraryEntry[], message: string) => {
+    try {
+      saveLibrary(nextEntries);
+      setEntries(nextEntries);
+      setStatus({ message, isError: false });
+    } catch (err) {
+      setStatus({ message: err instanceof Error ? err.message : 'Failed to update library', isError: true });
+    }
+  };
+
+  const handleSave = () => {
+    const entry = createLibraryEntry(
+      { name, description, tags: tags.split(',') },
+      blocks,
+      settings,
+      contextVariables
+    );
+    updateEntries([entry, ...entries], `Saved "${entry.name}"`);
+    setName('');
+    setTags('');
+    setDescription('');
+  };
+
+  const handleDuplicate = (entry: LibraryEntry) => {
+    const copy = duplicateLibraryEntry(entry);
+    updateEntries([copy, ...entries], `Duplicated "${entry.name}"`);
+  };
+
+  const handleDelete = (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete "${entry.name}" from the library?`)) return;
+    updateEntries(entries.filter(e => e.id !== entry.id), `Deleted "${entry.name}"`);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportLibrary(entries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'taco-condition-library.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be picked again
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { entries: imported, skipped } = parseLibraryFile(await file.text());
+      const skippedNote = skipped ? `; skipped ${skipped} invalid ${skipped === 1 ? 'entry' : 'entries'}` : '';
+      updateEntries(
+        mergeLibraryEntries(entries, imported),
+        `Imported ${imported.length} ${imported.length === 1 ? 'entry' : 'entries'}${skippedNote}`
+      );
+    } catch (err) {
+      setStatus({ message: err instanceof Error ? err.message : 'Failed to import library', isError: true });
+    }
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
+          onClick={onClose}
+        />
+      )}
+
+      {/* Sidebar */}
+      <div className={`fixed right-0 top-0 h-full w-[28rem] bg-black border-l border-white/10 transform transition-transform duration-300 ease-in-out z-50 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
+        <div className="p-6 h-full flex flex-col gap-4">
+          <div className="flex items-center justify-between border-b border-white/10 pb-3">
+            <h3 className="text-lg font-medium text-white">Condition Library</h3>
+            <button
+              onClick={onClose}
+              className="text-white/60 hover:text-white/80 transition-colors"
+            >
+              <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Save current workspace */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-white/80">Save current workspace</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              autoComplete="off"
+              data-form-type="other"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Tags, comma separated"
+              autoComplete="off"
+              data-form-type="other"
+              className={inputClassName}
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description"
+              rows={2}
+              className={inputClassName}
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleSave}
+                disabled={!name.trim() || !blocks.length}
+                className={buttonClassName}
+              >
+                Save
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 border-t border-white/10 pt-4">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, tag or description"
+              autoComplete="off"
+              data-form-type="other"
+              className={inputClassName}
+            />
+            <button onClick={handleExport} disabled={!entries.length} className={buttonClassName}>
+              Export
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+
+          {status && (
+            <p className={`text-sm ${status.isError ? 'text-red-400' : 'text-white/60'}`}>
+              {status.message}
+            </p>
+          )}
+
+          {/* Saved entries */}
+          <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+            {visibleEntries.length === 0 ? (
+              <p className="text-sm text-white/40 text-center py-8">
+                {entries.length ? 'No entries match your search' : 'No saved conditions yet'}
+              </p>
+            ) : visibleEntries.map((entry) => (
+              <div key={entry.id} className="p-3 bg-white/5 border border-white/10 rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-diatype font-bold text-white truncate">{entry.name}</div>
+                    <div className="text-xs text-white/40">
+                      Updated {new Date(entry.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <button
+                      onClick={() => onLoad(entry)}
+                      className="px-2 py-1 text-xs bg-white/5 text-taco rounded hover:bg-white/10 transition-all duration-200"
+                    >
+                      Load
+                    </button>
+                    <button
+                      onClick={() => handleDuplicate(entry)}
+                      className="px-2 py-1 text-xs bg-white/5 text-white/60 rounded hover:bg-white/10 hover:text-white/80 transition-all duration-200"
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      className="px-2 py-1 text-xs bg-white/5 text-red-400 rounded hover:bg-red-500/10 transition-all duration-200"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                {entry.description && (
+                  <p className="text-sm text-white/60 whitespace-pre-wrap">{entry.description}</p>
+                )}
+                {entry.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {entry.tags.map((tag) => (
+                      <button
+                        key={tag}
+                        onClick={() => setQuery(tag)}
+                        className="px-2 py-0.5 text-xs bg-white/5 text-white/60 border border-white/10 rounded-full
+                          hover:bg-white/10 transition-all duration-200"
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ConditionLibrary;
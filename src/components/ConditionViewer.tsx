@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { atomDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import DraggableBlock from './blocks/DraggableBlock';
+import { formatJson, jsonToBlocks } from './blocks/blockUtils';
+import { TacoCondition } from '../types/taco';
+
+interface ConditionViewerProps {
+  condition: TacoCondition;
+  onOpenInPlayground?: (condition: TacoCondition) => void;
+}
+
+const ConditionViewer: React.FC<ConditionViewerProps> = ({ condition, onOpenInPlayground }) => {
+  const [viewMode, setViewMode] = useState<'blocks' | 'json'>('blocks');
+
+  const { blocks, unmapped } = useMemo(() => jsonToBlocks(condition), [condition]);
+
+  return (
+    <div className="p-4 bg-white/5 border border-white/5 rounded-lg space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-diatype font-bold text-white/80">
+          Decryption Conditions:
+        </label>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setViewMode(prev => prev === 'blocks' ? 'json' : 'blocks')}
+            className="px-2 py-1 text-xs bg-white/5 text-white/60 rounded
+              hover:bg-white/10 hover:text-white/80 transition-all duration-200"
+          >
+            {viewMode === 'blocks' ? 'JSON' : 'Blocks'}
+          </button>
+          {onOpenInPlayground && (
+            <button
+              onClick={() => onOpenInPlayground(condition)}
+              className="px-2 py-1 text-xs bg-white/5 text-taco rounded
+                hover:bg-white/10 transition-all duration-200"
+            >
+              Open in playground
+            </button>
+          )}
+        </div>
+      </div>
+
+      {viewMode === 'blocks' ? (
+        <div className="space-y-3">
+          {blocks.map((block) => (
+            <DraggableBlock
+              key={block.id}
+              block={block}
+              isReadOnly={true}
+            />
+          ))}
+          {unmapped.length > 0 && (
+            <div className="p-3 bg-yellow-500/5 border border-yellow-500/20 rounded-lg text-yellow-400 text-sm">
+              <span>Some parts of this condition cannot be shown as blocks:</span>
+              <ul className="list-disc pl-5 mt-1 font-mono text-xs space-y-0.5">
+                {unmapped.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="bg-black/30 rounded-lg overflow-auto max-h-96">
+          <SyntaxHighlighter
+            language="json"
+            style={atomDark}
+            customStyle={{ backgroundColor: 'transparent', margin: 0, padding: '0.5rem', fontSize: '0.875rem' }}
+          >
+            {formatJson(condition)}
+          </SyntaxHighlighter>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConditionViewer;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { OptionSelect } from './blocks/OptionSelect';
+import {
+  CONTEXT_VARIABLE_TYPE_LABELS,
+  CONTEXT_VARIABLE_TYPES,
+  ContextVariable,
+  ContextVariableType,
+  parseContextVariableValue
+} from '../utils/contextVariables';
+
+interface ContextVariablesFormProps {
+  // Names of the variables the condition needs, e.g. :inviteCode
+  variables: string[];
+  // Declarations from the workspace; variables without one are typed by whoever decrypts
+  declarations: ContextVariable[];
+  values: Record<string, string>;
+  types: Record<string, ContextVariableType>;
+  // Why the values were not accepted when decrypting
+  error?: string;
+  onValueChange: (name: string, value: string) => void;
+  onTypeChange: (name: string, type: ContextVariableType) => void;
+}
+
+const VALUE_PLACEHOLDERS: Record<ContextVariableType, string> = {
+  string: 'Text',
+  integer: 'e.g. 42',
+  boolean: 'true or false',
+  address: '0x…'
+};
+
+const ContextVariablesForm: React.FC<ContextVariablesFormProps> = ({
+  variables,
+  declarations,
+  values,
+  types,
+  error: formError,
+  onValueChange,
+  onTypeChange
+}) => {
+  return (
+    <div className="p-4 bg-white/5 border border-white/5 rounded-lg space-y-3">
+      <div className="space-y-1">
+        <label className="block text-sm font-diatype font-bold text-white/80">
+          Context Variables
+        </label>
+        <p className="text-xs text-white/40">
+          The condition reads these values; they are sent to the nodes along with your decryption request.
+        </p>
+      </div>
+
+      {variables.map(name => {
+        const declaration = declarations.find(variable => variable.name === name);
+        const type = declaration?.type || types[name] || 'string';
+        const value = values[name] || '';
+
+        let error = '';
+        if (value.trim()) {
+          try {
+            parseContextVariableValue(value, type);
+          } catch (err) {
+            error = err instanceof Error ? err.message : String(err);
+          }
+        }
+
+        return (
+          <div key={name} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-mono text-white/70">{name}</span>
+              {declaration ? (
+                <span className="text-xs text-white/40">{CONTEXT_VARIABLE_TYPE_LABELS[type]}</span>
+              ) : (
+                <OptionSelect
+                  value={type}
+                  options={CONTEXT_VARIABLE_TYPES.map(option => ({ value: option, label: CONTEXT_VARIABLE_TYPE_LABELS[option] }))}
+                  onChange={(option: string) => onTypeChange(name, option as ContextVariableType)}
+                  className="w-24"
+                  title="Type"
+                />
+              )}
+            </div>
+            {declaration?.description && (
+              <p className="text-xs text-white/40">{declaration.description}</p>
+            )}
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => onValueChange(name, e.target.value)}
+              placeholder={VALUE_PLACEHOLDERS[type]}
+              autoComplete="off"
+              data-form-type="other"
+              className="w-full px-2 py-1.5 text-sm font-mono bg-black/30 border border-white/5 rounded
+                focus:outline-none focus:border-white/20 placeholder-white/20"
+            />
+            {error && <span className="text-xs text-red-400">{error}</span>}
+          </div>
+        );
+      })}
+
+      {formError && <p className="text-xs text-red-400">{formError}</p>}
+    </div>
+  );
+};
+
+export default ContextVariablesForm;
@@ -1,13 +1,19 @@
 'use client';
 
 import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { DndProvider } from 'react-dnd';
+import { HTML5Backend } from 'react-dnd-html5-backend';
 import DecryptionPanel from './DecryptionPanel';
 import ErrorPanel from './ErrorPanel';
 import Header from './layout/Header';
 import { domains } from '@nucypher/taco';
+import { TacoCondition } from '../types/taco';
+import { stashConditionForPlayground } from '../utils/messageKit';
 
 const DecryptPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
 
   const handleError = (errorMessage: string) => {
     setError(errorMessage);
@@ -19,26 +25,34 @@ const DecryptPage: React.FC = () => {
     setError(null);
   };
 
+  const handleOpenInPlayground = (condition: TacoCondition) => {
+    stashConditionForPlayground(condition);
+    router.push('/');
+  };
+
   return (
-    <div className="min-h-screen flex flex-col bg-black">
-      <Header variant="decrypt" />
-      <main className="flex-1 p-4">
-        <div className="max-w-[1600px] mx-auto space-y-6">
-          <div className="grid grid-cols-1 gap-4">
-            <DecryptionPanel 
-              messageKit={null}
-              ciphertext=""
-              onError={handleError}
-              settings={{
-                domain: domains.DEVNET,
-                ritualId: 27
-              }}
-            />
+    <DndProvider backend={HTML5Backend}>
+      <div className="min-h-screen flex flex-col bg-black">
+        <Header variant="decrypt" />
+        <main className="flex-1 p-4">
+          <div className="max-w-[1600px] mx-auto space-y-6">
+            <div className="grid grid-cols-1 gap-4">
+              <DecryptionPanel 
+                messageKit={null}
+                ciphertext=""
+                onError={handleError}
+                onOpenInPlayground={handleOpenInPlayground}
+                settings={{
+                  domain: domains.DEVNET,
+                  ritualId: 27
+                }}
+              />
+            </div>
           </div>
-        </div>
-      </main>
-      <ErrorPanel error={error} onClear={handleClearError} />
-    </div>
+        </main>
+        <ErrorPanel error={error} onClear={handleClearError} />
+      </div>
+    </DndProvider>
   );
 };
 
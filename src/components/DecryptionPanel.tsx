@@ -1,30 +1,108 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { conditions, decrypt, initialize, ThresholdMessageKit } from '@nucypher/taco';
-import { EIP4361AuthProvider, USER_ADDRESS_PARAM_DEFAULT } from '@nucypher/taco-auth';
+import { USER_ADDRESS_PARAM_DEFAULT, USER_ADDRESS_PARAM_EXTERNAL_EIP4361 } from '@nucypher/taco-auth';
 import { ethers } from 'ethers';
 import CiphertextDisplay from './CiphertextDisplay';
+import ConditionViewer from './ConditionViewer';
+import ContextVariablesForm from './ContextVariablesForm';
+import AuthMethodForm from './AuthMethodForm';
 import { SettingsConfig } from './Settings';
+import { TacoCondition } from '../types/taco';
+import { getMessageKitCondition } from '../utils/messageKit';
+import {
+  AUTH_CONTEXT_VARIABLES,
+  ContextVariable,
+  ContextVariableType,
+  findStepVariables,
+  parseContextVariableValue
+} from '../utils/contextVariables';
+import {
+  checkSignedSiweMessage,
+  ConfigurableEIP4361AuthProvider,
+  createExternalAuthProvider,
+  DEFAULT_SIWE_OPTIONS,
+  parseSiweExpiry,
+  PresignedEIP4361AuthProvider,
+  SignedSiweMessage,
+  SiweOptions,
+  UserAddressAuthMethod
+} from '../utils/siwe';
+
+const EMPTY_SIGNED_MESSAGE: SignedSiweMessage = { message: '', signature: '' };
 
 interface DecryptionPanelProps {
   messageKit: ThresholdMessageKit | null;
   ciphertext: string;
   onError: (error: string) => void;
   settings: SettingsConfig;
+  // Declarations from the workspace, which describe the values asked for before decrypting
+  contextVariables?: ContextVariable[];
+  onOpenInPlayground?: (condition: TacoCondition) => void;
 }
 
 const DecryptionPanel: React.FC<DecryptionPanelProps> = ({ 
   messageKit, 
   ciphertext,
   onError,
-  settings
+  settings,
+  contextVariables = [],
+  onOpenInPlayground
 }) => {
   const [decryptedMessage, setDecryptedMessage] = useState('');
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [customCiphertext, setCustomCiphertext] = useState('');
   const [activeMessageKit, setActiveMessageKit] = useState<ThresholdMessageKit | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [showConditions, setShowConditions] = useState(false);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  const [variableTypes, setVariableTypes] = useState<Record<string, ContextVariableType>>({});
+  // Why the typed values were not accepted on the last attempt, shown with the values
+  const [variablesError, setVariablesError] = useState('');
+  const [authMethod, setAuthMethod] = useState<UserAddressAuthMethod>('wallet');
+  const [siweOptions, setSiweOptions] = useState<SiweOptions>(DEFAULT_SIWE_OPTIONS);
+  const [presignedMessage, setPresignedMessage] = useState<SignedSiweMessage>(EMPTY_SIGNED_MESSAGE);
+  const [externalMessage, setExternalMessage] = useState<SignedSiweMessage>(EMPTY_SIGNED_MESSAGE);
+
+  // Pull the condition lingo out of the active message kit
+  const lockingCondition = useMemo(() => {
+    if (!activeMessageKit) return null;
+    try {
+      return getMessageKitCondition(activeMessageKit);
+    } catch (error) {
+      console.error('Failed to read conditions from message kit:', error);
+      return null;
+    }
+  }, [activeMessageKit]);
+
+  // Context variables the condition reads, except those sequential conditions set themselves
+  const requestedVariables = useMemo(() => {
+    if (!activeMessageKit) return [];
+    try {
+      const { requestedContextParameters } = conditions.context.ConditionContext.fromMessageKit(activeMessageKit);
+      const stepVariables = findStepVariables(lockingCondition);
+      return Array.from(requestedContextParameters).filter(name => !stepVariables.includes(name));
+    } catch {
+      return [];
+    }
+  }, [activeMessageKit, lockingCondition]);
+
+  // The user's address is proven with a SIWE sign-in; everything else is typed in
+  const authVariables = useMemo(
+    () => requestedVariables.filter(name => AUTH_CONTEXT_VARIABLES.includes(name)),
+    [requestedVariables]
+  );
+  const customVariables = useMemo(
+    () => requestedVariables.filter(name => !AUTH_CONTEXT_VARIABLES.includes(name)),
+    [requestedVariables]
+  );
+
+  // Values typed for one ciphertext are not carried over to another
+  useEffect(() => {
+    setVariableValues({});
+    setVariableTypes({});
+  }, [activeMessageKit]);
 
   // Initialize TACo when component mounts
   useEffect(() => {
@@ -84,52 +162,105 @@ const DecryptionPanel: React.FC<DecryptionPanelProps> = ({
   const handleDecrypt = async () => {
     if (!activeMessageKit || !isInitialized) return;
     setDecryptedMessage('');
+    setVariablesError('');
 
     try {
       setIsDecrypting(true);
       console.log('Starting decryption with message kit:', activeMessageKit);
 
+      // Check the typed values before asking the wallet for anything
+      const customParameters: Record<string, string | number | boolean> = {};
+      for (const name of customVariables) {
+        const type = contextVariables.find(variable => variable.name === name)?.type || variableTypes[name] || 'string';
+        try {
+          customParameters[name] = parseContextVariableValue(variableValues[name] || '', type);
+        } catch (err) {
+          setVariablesError(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+          return;
+        }
+      }
+
       if (!window.ethereum) {
         throw new Error('MetaMask is not installed');
       }
 
       const provider = new ethers.providers.Web3Provider(window.ethereum);
-      
-      const accounts = await provider.send("eth_requestAccounts", []);
-      if (!accounts || accounts.length === 0) {
-        throw new Error('No accounts found');
+
+      // Pasted sign-ins are checked up front too; a smart account's signature is checked with its contract
+      const readsUserAddress = authVariables.includes(USER_ADDRESS_PARAM_DEFAULT);
+      const signsWithWallet = readsUserAddress && authMethod === 'wallet';
+      if (signsWithWallet) {
+        parseSiweExpiry(siweOptions.expiryMinutes);
+      } else if (readsUserAddress) {
+        try {
+          await checkSignedSiweMessage(presignedMessage, authMethod === 'eip1271' ? provider : undefined);
+        } catch (err) {
+          throw new Error(`${USER_ADDRESS_PARAM_DEFAULT}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+      let externalAuthProvider;
+      if (authVariables.includes(USER_ADDRESS_PARAM_EXTERNAL_EIP4361)) {
+        try {
+          externalAuthProvider = await createExternalAuthProvider(externalMessage);
+        } catch (err) {
+          throw new Error(`${USER_ADDRESS_PARAM_EXTERNAL_EIP4361}: ${err instanceof Error ? err.message : String(err)}`);
+        }
       }
 
-      const signer = provider.getSigner();
-      const userAddress = await signer.getAddress();
-      console.log('User address:', userAddress);
+      // The wallet is only asked for an account when it signs in
+      let userAddress: string | undefined;
+      if (signsWithWallet) {
+        const accounts = await provider.send("eth_requestAccounts", []);
+        if (!accounts || accounts.length === 0) {
+          throw new Error('No accounts found');
+        }
+        userAddress = await provider.getSigner().getAddress();
+        console.log('User address:', userAddress);
+      }
 
-      // Create the condition context only if needed
+      // Create the condition context only if needed; only a message kit without conditions is
+      // decrypted without one, and problems setting it up stop the decryption
       let conditionContext;
       try {
         conditionContext = conditions.context.ConditionContext.fromMessageKit(activeMessageKit);
-        
-        if (conditionContext) {
-          // Create auth provider for contract conditions
-          const authProvider = new EIP4361AuthProvider(
-            provider,
-            signer,
-            {
-              domain: window.location.hostname,
-              uri: window.location.origin
-            }
+      } catch {
+        console.log('No conditions found in message kit, proceeding with direct decryption');
+        conditionContext = undefined;
+      }
+
+      if (conditionContext) {
+        // Add auth provider for :userAddress parameter; the wallet only signs when there is
+        // no unexpired session for the address and domain
+        if (signsWithWallet) {
+          conditionContext.addAuthProvider(
+            USER_ADDRESS_PARAM_DEFAULT,
+            new ConfigurableEIP4361AuthProvider(provider, provider.getSigner(), siweOptions)
+          );
+        } else if (readsUserAddress) {
+          conditionContext.addAuthProvider(
+            USER_ADDRESS_PARAM_DEFAULT,
+            new PresignedEIP4361AuthProvider(provider, presignedMessage)
           );
+        }
 
-          // Add auth provider for :userAddress parameter
-          conditionContext.addAuthProvider(USER_ADDRESS_PARAM_DEFAULT, authProvider);
+        // Add auth provider for :userAddressExternalEIP4361 parameter
+        if (externalAuthProvider) {
+          conditionContext.addAuthProvider(USER_ADDRESS_PARAM_EXTERNAL_EIP4361, externalAuthProvider);
+        }
 
-          // Now get the parameters after setting up auth
-          const contextParams = await conditionContext.toContextParameters();
-          console.log('Required context parameters:', contextParams);
+        // Add the values typed in for custom variables; the SDK rejects e.g. names it reserves
+        if (customVariables.length) {
+          try {
+            conditionContext.addCustomContextParameterValues(customParameters);
+          } catch (err) {
+            setVariablesError(err instanceof Error ? err.message : String(err));
+            return;
+          }
         }
-      } catch {
-        console.log('No conditions found in message kit, proceeding with direct decryption');
-        conditionContext = undefined;
+
+        // Now get the parameters after setting up auth
+        const contextParams = await conditionContext.toContextParameters();
+        console.log('Required context parameters:', contextParams);
       }
 
       // Log the setup for debugging
@@ -184,6 +315,54 @@ const DecryptionPanel: React.FC<DecryptionPanelProps> = ({
           onClear={handleClear}
         />
 
+        {lockingCondition && (
+          <button
+            onClick={() => setShowConditions(prev => !prev)}
+            className="px-2 py-1 text-xs bg-white/5 text-white/60 rounded
+              hover:bg-white/10 hover:text-white/80 transition-all duration-200
+              flex items-center gap-1.5"
+          >
+            <svg className="w-3 h-3" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                d="M15 12a3 3 0 11-6 0 3 3 0 016 0zM2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+            </svg>
+            <span>{showConditions ? 'Hide conditions' : 'Show conditions'}</span>
+          </button>
+        )}
+
+        {lockingCondition && showConditions && (
+          <ConditionViewer
+            condition={lockingCondition}
+            onOpenInPlayground={onOpenInPlayground}
+          />
+        )}
+
+        {authVariables.length > 0 && (
+          <AuthMethodForm
+            variables={authVariables}
+            method={authMethod}
+            onMethodChange={setAuthMethod}
+            siweOptions={siweOptions}
+            onSiweOptionsChange={setSiweOptions}
+            presigned={presignedMessage}
+            onPresignedChange={setPresignedMessage}
+            external={externalMessage}
+            onExternalChange={setExternalMessage}
+          />
+        )}
+
+        {customVariables.length > 0 && (
+          <ContextVariablesForm
+            variables={customVariables}
+            declarations={contextVariables}
+            values={variableValues}
+            types={variableTypes}
+            error={variablesError}
+            onValueChange={(name, value) => setVariableValues(prev => ({ ...prev, [name]: value }))}
+            onTypeChange={(name, type) => setVariableTypes(prev => ({ ...prev, [name]: type }))}
+          />
+        )}
+
         <button
           onClick={handleDecrypt}
           disabled={!activeMessageKit || isDecrypting}
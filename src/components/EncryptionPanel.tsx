@@ -1,10 +1,11 @@
 'use client';
 
 import React, { useState } from 'react';
-import { encrypt, conditions, ThresholdMessageKit } from '@nucypher/taco';
+import { encrypt, ThresholdMessageKit } from '@nucypher/taco';
 import { ethers } from 'ethers';
 import { TacoCondition } from '../types/taco';
 import { SettingsConfig } from './Settings';
+import { createTacoCondition } from './blocks/blockRegistry';
 
 interface EncryptionPanelProps {
   condition: TacoCondition | null;
@@ -43,27 +44,8 @@ const EncryptionPanel: React.FC<EncryptionPanelProps> = ({
 
       console.log('Using condition:', JSON.stringify(condition, null, 2));
 
-      // Create the appropriate condition instance based on type
-      let tacoCondition;
-      switch (condition.conditionType) {
-        case 'compound':
-          tacoCondition = new conditions.compound.CompoundCondition(condition);
-          break;
-        case 'rpc':
-          tacoCondition = new conditions.base.rpc.RpcCondition(condition);
-          break;
-        case 'contract':
-          tacoCondition = new conditions.base.contract.ContractCondition(condition);
-          break;
-        case 'time':
-          tacoCondition = new conditions.base.time.TimeCondition(condition);
-          break;
-        case 'json-rpc':
-          tacoCondition = new conditions.base.jsonRpc.JsonRpcCondition(condition);
-          break;
-        default:
-          throw new Error('Unsupported condition type');
-      }
+      // Create the condition instance through the block that handles its type
+      const tacoCondition = createTacoCondition(condition);
 
       const messageKit = await encrypt(
         provider,
@@ -0,0 +1,60 @@
+'use client';
+
+import React, { useState } from 'react';
+import { RecoverySnapshot } from '../utils/autosave';
+
+interface RecoveryBannerProps {
+  snapshots: RecoverySnapshot[];
+  onRestore: (snapshot: RecoverySnapshot) => void;
+  onDismiss: () => void;
+}
+
+const RecoveryBanner: React.FC<RecoveryBannerProps> = ({ snapshots, onRestore, onDismiss }) => {
+  const [selectedId, setSelectedId] = useState(snapshots[0]?.id ?? '');
+
+  if (!snapshots.length) return null;
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) ?? snapshots[0];
+
+  return (
+    <div className="p-3 bg-taco/5 border border-taco/20 rounded-lg flex items-center justify-between gap-3">
+      <span className="text-sm text-white/80">
+        Your previous session was saved automatically. Restore it?
+      </span>
+      <div className="flex items-center gap-2 shrink-0">
+        {snapshots.length > 1 && (
+          <select
+            value={selected.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className="px-2 py-1 bg-white/5 text-white/80 border border-white/10 rounded text-xs
+              focus:outline-none focus:ring-1 focus:ring-white/20"
+          >
+            {snapshots.map((snapshot) => (
+              <option key={snapshot.id} value={snapshot.id}>
+                {new Date(snapshot.savedAt).toLocaleString()} ({snapshot.blocks.length} {snapshot.blocks.length === 1 ? 'block' : 'blocks'})
+              </option>
+            ))}
+          </select>
+        )}
+        {snapshots.length === 1 && (
+          <span className="text-xs text-white/40">{new Date(selected.savedAt).toLocaleString()}</span>
+        )}
+        <button
+          onClick={() => onRestore(selected)}
+          className="px-2 py-1 text-xs bg-white/5 text-taco rounded hover:bg-white/10 transition-all duration-200"
+        >
+          Restore
+        </button>
+        <button
+          onClick={onDismiss}
+          className="px-2 py-1 text-xs bg-white/5 text-white/60 rounded
+            hover:bg-white/10 hover:text-white/80 transition-all duration-200"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryBanner;
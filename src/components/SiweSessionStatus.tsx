@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { formatDuration } from '../utils/time';
+import { loadSiweSessions, revokeSiweSession, SIWE_SESSIONS_EVENT, SiweSession } from '../utils/siweSessions';
+
+// Shows the cached SIWE sign-ins and how long until they expire, each with a way to revoke it
+const SiweSessionStatus: React.FC = () => {
+  const [sessions, setSessions] = useState<SiweSession[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Sessions are saved when decrypting, here or in another tab
+  useEffect(() => {
+    const refresh = () => setSessions(loadSiweSessions());
+    refresh();
+    window.addEventListener(SIWE_SESSIONS_EVENT, refresh);
+    window.addEventListener('storage', refresh);
+    return () => {
+      window.removeEventListener(SIWE_SESSIONS_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, []);
+
+  // Tick while there is a session to count down, dropping those that expire
+  useEffect(() => {
+    if (!sessions.length) return;
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (sessions.some(session => session.expiresAt <= current)) {
+        setSessions(loadSiweSessions(current));
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [sessions]);
+
+  if (!sessions.length) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {sessions.map(session => (
+        <div
+          key={`${session.address}@${session.domain}`}
+          title={`Signed in as ${session.address} on ${session.domain}; decrypting reuses this sign-in until it expires`}
+          className="flex items-center gap-1.5 pl-2.5 pr-1 py-1 text-xs bg-white/5 border border-white/10 rounded-lg"
+        >
+          <span className="w-1.5 h-1.5 rounded-full bg-taco" />
+          <span className="text-white/60">
+            SIWE <span className="font-mono">{session.address.slice(0, 6)}...{session.address.slice(-4)}</span>
+            {' · '}expires in {formatDuration((session.expiresAt - now) / 1000)}
+          </span>
+          <button
+            onClick={() => revokeSiweSession(session.address, session.domain)}
+            title="Revoke; the wallet is asked to sign again on the next decryption"
+            aria-label="Revoke sign-in"
+            className="p-1 text-white/40 hover:text-red-400 transition-colors duration-200"
+          >
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SiweSessionStatus;
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import MainLayout from './layout/MainLayout';
@@ -12,15 +12,34 @@ import DecryptionPanel from './DecryptionPanel';
 import ErrorPanel from './ErrorPanel';
 import TacoProvider from './TacoProvider';
 import { TacoCondition } from '../types/taco';
+import { useBlockHistory } from './blocks/useBlockHistory';
+import { jsonToBlocks } from './blocks/blockUtils';
+import { takeStashedCondition } from '../utils/messageKit';
+import { buildShareUrl, decodeShareFragment } from '../utils/shareLink';
 import { ThresholdMessageKit, domains } from '@nucypher/taco';
 import Settings, { SettingsConfig } from './Settings';
+import ConditionLibrary from './ConditionLibrary';
+import { LibraryEntry } from '../utils/conditionLibrary';
+import RecoveryBanner from './RecoveryBanner';
+import { RecoverySnapshot, createSessionId, loadSnapshots, saveSnapshot } from '../utils/autosave';
+import { ContextVariable } from '../utils/contextVariables';
+
+// Delay between the last edit and writing a recovery snapshot
+const AUTOSAVE_DELAY_MS = 1000;
 
 const TacoPlayground: React.FC = () => {
+  const { blocks, setBlocks, undo, redo, canUndo, canRedo } = useBlockHistory();
   const [currentCondition, setCurrentCondition] = useState<TacoCondition | null>(null);
   const [messageKit, setMessageKit] = useState<ThresholdMessageKit | null>(null);
   const [ciphertext, setCiphertext] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [recoverySnapshots, setRecoverySnapshots] = useState<RecoverySnapshot[]>([]);
+  const [contextVariables, setContextVariables] = useState<ContextVariable[]>([]);
+  // Parts of a condition opened from the decrypt page or panel that could not be mapped to blocks
+  const [loadWarnings, setLoadWarnings] = useState<string[]>([]);
+  const sessionIdRef = useRef(createSessionId());
   const [settings, setSettings] = useState<SettingsConfig>({
     domain: domains.DEVNET,
     ritualId: 27
@@ -30,6 +49,58 @@ const TacoPlayground: React.FC = () => {
     console.log('TacoPlayground currentCondition updated:', currentCondition);
   }, [currentCondition]);
 
+  // Offer to restore snapshots left by earlier sessions
+  useEffect(() => {
+    setRecoverySnapshots(loadSnapshots());
+  }, []);
+
+  // Autosave the workspace shortly after it changes, and before the page unloads
+  useEffect(() => {
+    const save = () => saveSnapshot(sessionIdRef.current, blocks, settings, contextVariables);
+    const timeout = setTimeout(save, AUTOSAVE_DELAY_MS);
+    window.addEventListener('beforeunload', save);
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener('beforeunload', save);
+    };
+  }, [blocks, settings, contextVariables]);
+
+  // Load a condition handed over from the decrypt page
+  useEffect(() => {
+    const stashedCondition = takeStashedCondition();
+    if (stashedCondition) {
+      const { blocks: loadedBlocks, unmapped } = jsonToBlocks(stashedCondition);
+      setBlocks(loadedBlocks);
+      setLoadWarnings(unmapped);
+    }
+  }, [setBlocks]);
+
+  // Restore a workspace shared through the URL fragment
+  useEffect(() => {
+    const loadSharedWorkspace = async () => {
+      try {
+        const shared = await decodeShareFragment(window.location.hash);
+        if (!shared) return;
+
+        setBlocks(shared.blocks);
+        setSettings(shared.settings);
+        setContextVariables(shared.contextVariables || []);
+      } catch (err) {
+        console.error('Failed to open shared workspace:', err);
+        handleError(`Could not open shared workspace: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        // Drop the fragment so later edits are not mistaken for the shared state
+        if (window.location.hash) {
+          window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+        }
+      }
+    };
+
+    loadSharedWorkspace();
+    window.addEventListener('hashchange', loadSharedWorkspace);
+    return () => window.removeEventListener('hashchange', loadSharedWorkspace);
+  }, [setBlocks]);
+
   const handleConditionChange = (condition: TacoCondition | null) => {
     console.log('TacoPlayground handleConditionChange called with:', condition);
     setCurrentCondition(condition);
@@ -50,18 +121,65 @@ const TacoPlayground: React.FC = () => {
     setError(null);
   };
 
+  const handleShare = async () => {
+    const url = await buildShareUrl({ blocks, settings, contextVariables });
+    await navigator.clipboard.writeText(url);
+  };
+
+  const handleOpenInPlayground = (condition: TacoCondition) => {
+    const { blocks: loadedBlocks, unmapped } = jsonToBlocks(condition);
+    setBlocks(loadedBlocks);
+    setLoadWarnings(unmapped);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleRestoreSnapshot = (snapshot: RecoverySnapshot) => {
+    setBlocks(snapshot.blocks);
+    setSettings(snapshot.settings);
+    setContextVariables(snapshot.contextVariables);
+    setRecoverySnapshots([]);
+  };
+
+  const handleLoadFromLibrary = (entry: LibraryEntry) => {
+    setBlocks(entry.blocks);
+    if (entry.settings) {
+      setSettings(entry.settings);
+    }
+    // The entry's declarations replace the current ones, so variables of the previous workspace do not linger
+    setContextVariables(entry.contextVariables);
+    setIsLibraryOpen(false);
+  };
+
   return (
     <DndProvider backend={HTML5Backend}>
       <TacoProvider>
-        <MainLayout onOpenSettings={() => setIsSettingsOpen(true)}>
+        <MainLayout
+          onOpenSettings={() => setIsSettingsOpen(true)}
+          onOpenLibrary={() => setIsLibraryOpen(true)}
+        >
           <div className="flex flex-col gap-4 w-full min-h-0">
+            <RecoveryBanner
+              snapshots={recoverySnapshots}
+              onRestore={handleRestoreSnapshot}
+              onDismiss={() => setRecoverySnapshots([])}
+            />
             <WorkspaceLayout
               workspace={
                 <BlockWorkspace 
+                  blocks={blocks}
+                  onBlocksChange={setBlocks}
                   onConditionChange={handleConditionChange}
+                  onShare={handleShare}
+                  onUndo={undo}
+                  onRedo={redo}
+                  canUndo={canUndo}
+                  canRedo={canRedo}
+                  contextVariables={contextVariables}
+                  onContextVariablesChange={setContextVariables}
+                  loadWarnings={loadWarnings}
                 />
               }
-              preview={<JsonPreview condition={currentCondition} />}
+              preview={<JsonPreview condition={currentCondition} blocks={blocks} />}
             />
             
             <div className="grid grid-cols-2 gap-3">
@@ -79,6 +197,8 @@ const TacoPlayground: React.FC = () => {
                   ciphertext={ciphertext}
                   onError={handleError}
                   settings={settings}
+                  contextVariables={contextVariables}
+                  onOpenInPlayground={handleOpenInPlayground}
                 />
               </div>
             </div>
@@ -90,6 +210,14 @@ const TacoPlayground: React.FC = () => {
             isOpen={isSettingsOpen}
             onClose={() => setIsSettingsOpen(false)}
           />
+          <ConditionLibrary
+            blocks={blocks}
+            settings={settings}
+            contextVariables={contextVariables}
+            isOpen={isLibraryOpen}
+            onClose={() => setIsLibraryOpen(false)}
+            onLoad={handleLoadFromLibrary}
+          />
         </MainLayout>
       </TacoProvider>
     </DndProvider>
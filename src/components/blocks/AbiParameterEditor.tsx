@@ -0,0 +1,171 @@
+import React from 'react';
+import { OptionSelect } from './OptionSelect';
+import { AbiParameter, checkArgumentValue, getArrayElement, parseArgumentValue } from '../../utils/abi';
+
+interface AbiParameterEditorProps {
+  parameter: AbiParameter;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  // Context variables offered for insertion, e.g. :userAddress
+  contextVariables: string[];
+  disabled?: boolean;
+}
+
+const inputClassName = `w-full px-2 py-1.5 text-sm bg-black/30 border border-white/5 rounded
+  focus:outline-none focus:border-white/20 placeholder-white/20`;
+
+const smallButtonClassName = `px-2 py-1 text-xs bg-white/5 text-white/60 rounded
+  hover:bg-white/10 hover:text-white/80 transition-all duration-200`;
+
+// Empty value of a parameter, used for new array items and tuple fields
+const getDefaultValue = (parameter: AbiParameter): unknown => {
+  const array = getArrayElement(parameter);
+  if (array) {
+    return array.length ? Array.from({ length: array.length }, () => getDefaultValue(array.element)) : [];
+  }
+  if (parameter.type === 'tuple') return (parameter.components || []).map(getDefaultValue);
+  return parameter.type === 'bool' ? false : '';
+};
+
+// Typed text becomes a condition value once it parses, and stays text until then so the error can be shown
+const toArgumentValue = (text: string, type: string): unknown => {
+  try {
+    return parseArgumentValue(text, type);
+  } catch {
+    return text;
+  }
+};
+
+const toText = (value: unknown): string =>
+  value === undefined ? '' : typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Edits a function argument by its ABI type: text fields for scalars, lists for arrays and fields for tuples
+export const AbiParameterEditor: React.FC<AbiParameterEditorProps> = ({
+  parameter,
+  value,
+  onChange,
+  contextVariables,
+  disabled = false
+}) => {
+  const array = getArrayElement(parameter);
+  const isTuple = parameter.type === 'tuple';
+  const isEmpty = value === undefined || value === '';
+  // Arrays and tuples stored as JSON text are read back into items
+  const current = !(array || isTuple) ? value
+    : isEmpty ? getDefaultValue(parameter)
+    : typeof value === 'string' ? toArgumentValue(value, parameter.type)
+    : value;
+
+  // Arrays and tuples are edited item by item; anything else in their place (e.g. a context variable) is shown as text
+  if ((array || isTuple) && Array.isArray(current)) {
+    const items = current;
+    if (isTuple) {
+      return (
+        <div className="flex flex-col gap-1.5 pl-2 border-l border-white/10">
+          {(parameter.components || []).map((component, index) => (
+            <div key={index} className="flex flex-col gap-1">
+              <span className="text-xs text-white/40">{component.name || `Field ${index + 1}`} ({component.type})</span>
+              <AbiParameterEditor
+                parameter={component}
+                value={items[index] ?? getDefaultValue(component)}
+                onChange={(item) => onChange((parameter.components || []).map((c, i) =>
+                  i === index ? item : items[i] ?? getDefaultValue(c)))}
+                contextVariables={contextVariables}
+                disabled={disabled}
+              />
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    const { element, length } = array!;
+    return (
+      <div className="flex flex-col gap-1.5 pl-2 border-l border-white/10">
+        {items.map((item, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <span className="text-xs text-white/40 pt-2 w-6">[{index}]</span>
+            <div className="flex-1">
+              <AbiParameterEditor
+                parameter={element}
+                value={item}
+                onChange={(next) => onChange(items.map((other, i) => (i === index ? next : other)))}
+                contextVariables={contextVariables}
+                disabled={disabled}
+              />
+            </div>
+            {length === undefined && !disabled && (
+              <button
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+                className="p-1 mt-1 text-white/40 hover:text-white/80 transition-colors"
+                title="Remove item"
+              >
+                <svg className="w-3 h-3" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        ))}
+        {length === undefined && !disabled && (
+          <button
+            onClick={() => onChange([...items, getDefaultValue(element)])}
+            className={`${smallButtonClassName} self-start`}
+          >
+            Add item
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const text = toText(value);
+  const parsed = typeof value === 'string' ? toArgumentValue(value, parameter.type) : value;
+  const error = text.trim() ? checkArgumentValue(parameter, parsed) : null;
+
+  // Arrays and tuples typed as text switch back to item editing once they are valid JSON arrays
+  const handleTextChange = (nextText: string) => onChange(toArgumentValue(nextText, parameter.type));
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        {parameter.type === 'bool' ? (
+          <OptionSelect
+            value={text || 'false'}
+            options={['true', 'false', ...contextVariables].map(option => ({ value: option, label: option }))}
+            onChange={(option: string) => onChange(option === 'true' ? true : option === 'false' ? false : option)}
+            className="flex-1"
+            disabled={disabled}
+            title={parameter.type}
+          />
+        ) : (
+          <>
+            <input
+              type="text"
+              value={text}
+              onChange={(e) => handleTextChange(e.target.value)}
+              readOnly={disabled}
+              autoComplete="off"
+              data-form-type="other"
+              className={inputClassName}
+              placeholder={array || isTuple ? `${parameter.type} as a JSON array` : parameter.type}
+            />
+            {!disabled && contextVariables.length > 0 && (
+              <OptionSelect
+                value=""
+                options={[
+                  { value: '', label: ':var' },
+                  ...contextVariables.map(variable => ({ value: variable, label: variable }))
+                ]}
+                onChange={(variable: string) => variable && onChange(variable)}
+                className="w-24"
+                title="Insert a context variable"
+              />
+            )}
+          </>
+        )}
+      </div>
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { formatAddressList, MAX_ALLOWLIST_ADDRESSES, parseAddressList } from '../../utils/addressList';
+
+interface AddressListEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Replaces the block with an allowlist contract block, offered when the list is too long
+  onUseContract?: () => void;
+  disabled?: boolean;
+}
+
+const buttonClassName = `px-2 py-1 text-xs bg-white/5 text-white/60 rounded
+  hover:bg-white/10 hover:text-white/80 transition-all duration-200
+  disabled:opacity-50 disabled:cursor-not-allowed`;
+
+// Edits the addresses of an allowlist, pasted or uploaded as CSV, and reports what the list compiles to
+export const AddressListEditor: React.FC<AddressListEditorProps> = ({
+  value,
+  onChange,
+  onUseContract,
+  disabled = false
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const list = parseAddressList(value);
+  const isTidy = formatAddressList(list) === value.trim();
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be picked again
+    event.target.value = '';
+    if (!file) return;
+
+    // Uploaded addresses are added to the ones already listed
+    onChange(formatAddressList(parseAddressList(`${value}\n${await file.text()}`)));
+  };
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        readOnly={disabled}
+        placeholder="One address per line, or comma separated"
+        autoComplete="off"
+        data-form-type="other"
+        className="w-full h-24 px-2 py-1.5 text-xs font-mono bg-black/30 border border-white/5 rounded
+          focus:outline-none focus:border-white/20 placeholder-white/20"
+      />
+
+      {!disabled && (
+        <div className="flex items-center gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+            Upload CSV
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            onChange={handleUpload}
+            className="hidden"
+          />
+          <button onClick={() => onChange(formatAddressList(list))} disabled={isTidy} className={buttonClassName}>
+            Checksum and remove duplicates
+          </button>
+        </div>
+      )}
+
+      <span className="text-xs text-white/40">
+        {list.addresses.length} address{list.addresses.length === 1 ? '' : 'es'}
+        {list.duplicates > 0 && `, ${list.duplicates} duplicate${list.duplicates === 1 ? '' : 's'} ignored`}
+      </span>
+
+      {list.invalid.length > 0 && (
+        <span className="text-xs text-red-400 break-all">
+          Not valid addresses (wrong length, characters or checksum): {list.invalid.join(', ')}
+        </span>
+      )}
+
+      {list.addresses.length > MAX_ALLOWLIST_ADDRESSES && (
+        <div className="flex flex-col gap-1.5 p-2 bg-yellow-500/10 border border-yellow-500/20 rounded">
+          <span className="text-xs text-yellow-200/80">
+            TACo conditions can combine at most {MAX_ALLOWLIST_ADDRESSES} operands, so this list cannot be encrypted
+            against. Deploy a contract holding the allowlist and check it instead.
+          </span>
+          {onUseContract && !disabled && (
+            <button onClick={onUseContract} className={`${buttonClassName} self-start`}>
+              Use an allowlist contract
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,7 +3,7 @@
 import React from 'react';
 import { BLOCK_CATEGORIES } from './BlockTypes';
 import DraggableBlock from './DraggableBlock';
-import { AVAILABLE_BLOCKS } from './BlockDefinitions';
+import { getPaletteBlocks } from './blockRegistry';
 
 const BlockPalette: React.FC = () => {
   return (
@@ -12,7 +12,7 @@ const BlockPalette: React.FC = () => {
       
       <div className="space-y-6">
         {Object.values(BLOCK_CATEGORIES).map((category) => {
-          const blocksInCategory = AVAILABLE_BLOCKS.filter(block => block.category === category);
+          const blocksInCategory = getPaletteBlocks().filter(block => block.category === category);
 
           return (
             <div key={category} className="space-y-2">
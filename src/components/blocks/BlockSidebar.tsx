@@ -3,7 +3,7 @@
 import React, { useState, useCallback } from 'react';
 import { Block, BLOCK_CATEGORIES } from './BlockTypes';
 import DraggableBlock from './DraggableBlock';
-import { AVAILABLE_BLOCKS } from './BlockDefinitions';
+import { getPaletteBlocks } from './blockRegistry';
 
 interface CategorySectionProps {
   title: string;
@@ -103,7 +103,7 @@ const BlockSidebar: React.FC = () => {
 
   const categorizedBlocks = Object.values(BLOCK_CATEGORIES).map(category => ({
     category,
-    blocks: AVAILABLE_BLOCKS.filter(block => block.category === category)
+    blocks: getPaletteBlocks().filter(block => block.category === category)
   }));
 
   return (
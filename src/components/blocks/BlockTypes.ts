@@ -1,3 +1,6 @@
+import type { AmountUnit } from '../../utils/units';
+import type { ReturnValueType } from '../../utils/returnValues';
+
 export type BlockType = 'condition' | 'operator' | 'value' | 'property';
 
 export type OperatorType = 'and' | 'or' | 'not' | 'greater-than' | 'less-than';
@@ -14,14 +17,21 @@ export type ConditionType =
 
 export type BlockCategory = 'conditions' | 'operators' | 'values';
 
+// The kinds of values an input socket accepts; 'condition' sockets take condition and operator blocks
+export type ValueKind = 'chainId' | 'address' | 'uint256' | 'timestamp' | 'string' | 'json' | 'condition';
+
 export interface Block {
   id: string;
+  // The registered block definition this block was created from
+  definitionId?: string;
   type: 'condition' | 'operator' | 'value';
   category: string;
   label: string;
   inputs?: BlockInput[];
   properties?: BlockProperties;
   value?: string;
+  // The kind of value a value block provides
+  kind?: ValueKind;
   isTemplate?: boolean;
   placeholder?: string;
   inputType?: string;
@@ -29,20 +39,34 @@ export interface Block {
 
 export interface BlockInput {
   id: string;
-  type: string | string[];
+  // The value kinds this socket accepts
+  type: ValueKind | ValueKind[];
   label: string;
   connected?: Block;
   value?: string;
   inputType?: 'text' | 'number';
   placeholder?: string;
   comparator?: string;
+  // Units an amount can be entered in, and the one selected; amounts without a unit are base units
+  units?: AmountUnit[];
+  unit?: AmountUnit;
+  // Type an expected return value is parsed as
+  valueType?: ReturnValueType;
+  // Which output of a multi-output function the expected value is compared with
+  outputIndex?: number;
+  // Name a sequential step's result is stored under, read by later steps as :name
+  varName?: string;
+  // Values read back from a condition that cannot be edited, e.g. hashed allowlist addresses
+  readOnly?: boolean;
 }
 
 export interface BlockProperties {
-  conditionType?: 'time' | 'contract' | 'rpc' | 'json-rpc' | 'compound';
+  conditionType?: 'time' | 'contract' | 'rpc' | 'json-rpc' | 'json-api' | 'compound' | 'sequential' | 'if-then-else';
   operator?: 'and' | 'or' | 'not';
   operands?: unknown[];
   maxInputs?: number;
+  // Operator sockets that stay as declared, rather than growing a slot for each connected condition
+  fixedInputs?: boolean;
   standardContractType?: 'ERC20' | 'ERC721';
   method?: string;
   parameters?: unknown[];
@@ -53,6 +77,8 @@ export interface BlockProperties {
   type?: string;
   canAddParameters?: boolean;
   parameterCount?: number;
+  // Context variable the condition reads the user's address from; unset means :userAddress
+  userAddressParam?: string;
 }
 
 export const BLOCK_CATEGORIES = {
@@ -1,14 +1,32 @@
 'use client';
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { useDrop } from 'react-dnd';
-import { Block, BLOCK_CATEGORIES } from './BlockTypes';
+import { Block } from './BlockTypes';
 import { TacoCondition } from '../../types/taco';
 import DraggableBlock from './DraggableBlock';
 import { blocksToJson } from './blockUtils';
+import ImportJsonDialog from './ImportJsonDialog';
+import TemplateGallery from './TemplateGallery';
+import { BlockUpdateOptions } from './types';
+import { SetBlocks } from './useBlockHistory';
+import { ContextVariablesContext, ContextVariablesPanel } from './ContextVariablesPanel';
+import { ContextVariable, findCustomContextVariables } from '../../utils/contextVariables';
 
 interface BlockWorkspaceProps {
+  blocks: Block[];
+  onBlocksChange: SetBlocks;
   onConditionChange: (condition: TacoCondition | null) => void;
+  onShare?: () => Promise<void>;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  // Custom context variables declared for the condition
+  contextVariables?: ContextVariable[];
+  onContextVariablesChange?: (variables: ContextVariable[]) => void;
+  // Parts of a condition loaded from outside the workspace (e.g. the decrypt panel) that have no block
+  loadWarnings?: string[];
 }
 
 interface DragItem extends Omit<Block, 'id'> {
@@ -21,15 +39,26 @@ interface DropResult {
   dropped?: boolean;
 }
 
-const BlockWorkspace: React.FC<BlockWorkspaceProps> = ({ onConditionChange }) => {
-  const [blocks, setBlocks] = useState<Block[]>([]);
+const BlockWorkspace: React.FC<BlockWorkspaceProps> = ({
+  blocks,
+  onBlocksChange: setBlocks,
+  onConditionChange,
+  onShare,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  contextVariables = [],
+  onContextVariablesChange,
+  loadWarnings
+}) => {
   const [dropError, setDropError] = useState<string>('');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [shareSuccess, setShareSuccess] = useState(false);
   const prevJsonRef = useRef<string>('');
-  
-  // Use refs for scroll buttons and container
-  const leftScrollButtonRef = useRef<HTMLButtonElement>(null);
-  const rightScrollButtonRef = useRef<HTMLButtonElement>(null);
-  const quickConditionsContainerRef = useRef<HTMLDivElement>(null);
+  const workspaceRef = useRef<HTMLDivElement>(null);
 
   // Clear error message after a delay
   useEffect(() => {
@@ -39,10 +68,18 @@ const BlockWorkspace: React.FC<BlockWorkspaceProps> = ({ onConditionChange }) =>
     }
   }, [dropError]);
 
+  // Show what was lost when a condition is loaded from outside, as for an import
+  useEffect(() => {
+    if (loadWarnings) {
+      setImportWarnings(loadWarnings);
+    }
+  }, [loadWarnings]);
+
   // Generate JSON whenever blocks change
   useEffect(() => {
+    // Blocks that compile to no condition (e.g. undone back to an empty workspace) pass on null, so
+    // the previous condition is no longer previewed or encrypted with
     const json = blocksToJson(blocks);
-    if (json === null) return;
 
     // Convert to string for comparison
     const jsonString = JSON.stringify(json);
@@ -59,21 +96,78 @@ const BlockWorkspace: React.FC<BlockWorkspaceProps> = ({ onConditionChange }) =>
     }
   }, [blocks, onConditionChange]);
 
-  const handleBlockUpdate = useCallback((updatedBlock: Block) => {
+  // Custom variables the condition reads, whether declared or typed straight into an input
+  const usedVariables = useMemo(() => findCustomContextVariables(blocksToJson(blocks)), [blocks]);
+
+  const handleBlockUpdate = useCallback((updatedBlock: Block, options?: BlockUpdateOptions) => {
     setBlocks(prev => 
       prev.map(block => 
         block.id === updatedBlock.id ? updatedBlock : block
-      )
+      ),
+      options
     );
-  }, []);
+  }, [setBlocks]);
+
+  // Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z to redo workspace changes
+  useEffect(() => {
+    if (!onUndo && !onRedo) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      // Leave text fields outside the workspace (e.g. the message to encrypt) to the browser
+      const target = e.target as HTMLElement | null;
+      const isTextField = target?.tagName === 'TEXTAREA' || target?.tagName === 'INPUT';
+      const isWorkspaceInput = target?.tagName === 'INPUT' && !!workspaceRef.current?.contains(target);
+      if (isTextField && !isWorkspaceInput) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        onRedo?.();
+      } else {
+        onUndo?.();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
 
   const handleClear = () => {
     setBlocks([]);
     setDropError('');
+    setImportWarnings([]);
     prevJsonRef.current = '';
     onConditionChange(null);
   };
 
+  const handleImport = (importedBlocks: Block[], unmapped: string[]) => {
+    setBlocks(importedBlocks);
+    setDropError('');
+    setImportWarnings(unmapped);
+    prevJsonRef.current = '';
+  };
+
+  // Templates are added next to what is already in the workspace, as the quick conditions were; their
+  // blocks are created fresh, so their ids do not clash with existing blocks
+  const handleInsertTemplate = (templateBlocks: Block[], unmapped: string[]) => {
+    setBlocks(prev => [...prev, ...templateBlocks]);
+    setDropError('');
+    setImportWarnings(unmapped);
+  };
+
+  const handleShare = async () => {
+    if (!onShare) return;
+
+    try {
+      await onShare();
+      setShareSuccess(true);
+      setTimeout(() => setShareSuccess(false), 2000);
+    } catch (err) {
+      setDropError(err instanceof Error ? err.message : 'Failed to create share link');
+    }
+  };
+
   // Helper function to check if a block is connected to an operator
   const isBlockConnectedToOperator = (blockId: string): boolean => {
     return blocks.some(block => 
@@ -156,6 +250,7 @@ const BlockWorkspace: React.FC<BlockWorkspaceProps> = ({ onConditionChange }) =>
           // Create a deep copy of the block to ensure properties are preserved
           const newBlock = JSON.parse(JSON.stringify({
             id: item.id,
+            definitionId: item.definitionId,
             type: item.type,
             category: item.category,
             label: item.label,
@@ -178,37 +273,8 @@ const BlockWorkspace: React.FC<BlockWorkspaceProps> = ({ onConditionChange }) =>
 
   drop(elementRef);
 
-  // Add effect to handle scroll button states
-  useEffect(() => {
-    const container = quickConditionsContainerRef.current;
-    const leftButton = leftScrollButtonRef.current;
-    const rightButton = rightScrollButtonRef.current;
-
-    if (!container || !leftButton || !rightButton) return;
-
-    const checkScrollPosition = () => {
-      // Disable left button if scrolled all the way to the left
-      leftButton.disabled = container.scrollLeft <= 0;
-      
-      // Disable right button if scrolled all the way to the right
-      const maxScrollLeft = container.scrollWidth - container.clientWidth;
-      rightButton.disabled = Math.abs(container.scrollLeft - maxScrollLeft) < 1;
-    };
-
-    // Initial check
-    checkScrollPosition();
-
-    // Add scroll event listener
-    container.addEventListener('scroll', checkScrollPosition);
-
-    // Cleanup
-    return () => {
-      container.removeEventListener('scroll', checkScrollPosition);
-    };
-  }, [blocks]); // Re-run when blocks change as it might affect scrollWidth
-
   return (
-    <div className="space-y-3 bg-transparent border border-white/10 rounded-lg p-6 flex flex-col flex-1">
+    <div ref={workspaceRef} className="space-y-3 bg-transparent border border-white/10 rounded-lg p-6 flex flex-col flex-1">
       <div className="flex justify-between items-center border-b border-white/10 -mx-6 px-6 py-4 -mt-6 bg-white/5">
         <div className="flex items-center gap-3">
           <div className="p-2 bg-white/5 rounded-lg border border-white/10">
@@ -219,562 +285,85 @@ const BlockWorkspace: React.FC<BlockWorkspaceProps> = ({ onConditionChange }) =>
           </div>
           <h3 className="text-sm font-diatype font-bold text-white tracking-wide uppercase">Workspace</h3>
         </div>
-        {blocks.length > 0 && (
+        <div className="flex items-center gap-2">
+          {shareSuccess && (
+            <div className="text-xs text-taco flex items-center gap-1.5">
+              <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+              <span>Link copied!</span>
+            </div>
+          )}
+          {onUndo && onRedo && (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={onUndo}
+                disabled={!canUndo}
+                title="Undo (Ctrl/Cmd+Z)"
+                className="p-1.5 bg-white/5 text-white/60 rounded-lg
+                  hover:bg-white/10 hover:text-white/80 transition-all duration-200
+                  focus:outline-none focus:ring-1 focus:ring-white/20
+                  disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                </svg>
+              </button>
+              <button
+                onClick={onRedo}
+                disabled={!canRedo}
+                title="Redo (Ctrl/Cmd+Shift+Z)"
+                className="p-1.5 bg-white/5 text-white/60 rounded-lg
+                  hover:bg-white/10 hover:text-white/80 transition-all duration-200
+                  focus:outline-none focus:ring-1 focus:ring-white/20
+                  disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+                </svg>
+              </button>
+            </div>
+          )}
+          {onShare && blocks.length > 0 && (
+            <button
+              onClick={handleShare}
+              className="px-3 py-1.5 bg-white/5 text-white rounded-lg text-sm font-diatype font-bold
+                border border-white/10 transition-all duration-200
+                hover:bg-white/10 hover:border-white/20
+                focus:outline-none focus:ring-1 focus:ring-white/20"
+            >
+              Share
+            </button>
+          )}
           <button
-            onClick={handleClear}
+            onClick={() => setIsTemplatesOpen(true)}
             className="px-3 py-1.5 bg-white/5 text-white rounded-lg text-sm font-diatype font-bold
               border border-white/10 transition-all duration-200
               hover:bg-white/10 hover:border-white/20
               focus:outline-none focus:ring-1 focus:ring-white/20"
           >
-            Clear
+            Templates
           </button>
-        )}
-      </div>
-
-      <div className="px-4 py-3 bg-white/[0.02] border border-white/10 rounded-lg">
-        <div className="flex items-center justify-between mb-2">
-          <div className="flex items-center gap-2">
-            <svg className="w-4 h-4 text-white/60" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} 
-                d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-            </svg>
-            <span className="text-sm font-diatype font-bold text-white/60">Quick Conditions:</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <button 
-              id="scroll-left-btn"
-              className="p-1.5 bg-white/5 text-white/60 rounded-lg
-                hover:bg-white/10 hover:text-white/80 transition-all duration-200
-                focus:outline-none focus:ring-1 focus:ring-white/20
-                disabled:opacity-30 disabled:cursor-not-allowed"
-              onClick={() => {
-                const container = document.getElementById('quick-conditions-container');
-                if (container) {
-                  container.scrollBy({ left: -200, behavior: 'smooth' });
-                }
-              }}
-            >
-              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 19l-7-7 7-7" />
-              </svg>
-            </button>
-            <button 
-              id="scroll-right-btn"
-              className="p-1.5 bg-white/5 text-white/60 rounded-lg
-                hover:bg-white/10 hover:text-white/80 transition-all duration-200
-                focus:outline-none focus:ring-1 focus:ring-white/20
-                disabled:opacity-30 disabled:cursor-not-allowed"
-              onClick={() => {
-                const container = document.getElementById('quick-conditions-container');
-                if (container) {
-                  container.scrollBy({ left: 200, behavior: 'smooth' });
-                }
-              }}
-            >
-              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
-              </svg>
-            </button>
-          </div>
-        </div>
-        <div 
-          id="quick-conditions-container"
-          className="overflow-x-hidden pb-2 -mx-1 px-1 scroll-smooth"
-          style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
-        >
-          <div className="flex items-center gap-2 min-w-max">
-            <button
-              onClick={() => {
-                // Clear workspace first
-                handleClear();
-                
-                const fiveMinutesFromNow = new Date();
-                fiveMinutesFromNow.setMinutes(fiveMinutesFromNow.getMinutes() + 5);
-                
-                const timestamp = Math.floor(fiveMinutesFromNow.getTime() / 1000);
-                
-                const newBlock: Block = {
-                  id: `time-${Date.now()}`,
-                  type: 'condition',
-                  category: BLOCK_CATEGORIES.CONDITIONS,
-                  label: 'Time Lock',
-                  inputs: [
-                    { 
-                      id: 'chain', 
-                      type: ['value'], 
-                      label: 'Chain ID', 
-                      inputType: 'number',
-                      value: '11155111',
-                      placeholder: 'Enter any valid chain ID'
-                    },
-                    { 
-                      id: 'minTimestamp', 
-                      type: ['value'], 
-                      label: 'Minimum Timestamp', 
-                      inputType: 'number',
-                      value: timestamp.toString(),
-                      placeholder: 'Unix timestamp in seconds',
-                      comparator: '>='
-                    }
-                  ],
-                  properties: {
-                    conditionType: 'time'
-                  },
-                  isTemplate: false
-                };
-                
-                setBlocks(prev => [...prev, newBlock]);
-              }}
-              className="px-3 py-1.5 bg-white/5 text-white/80 rounded-lg text-sm
-                border border-white/10 transition-all duration-200
-                hover:bg-white/10 hover:border-white/20 hover:text-white
-                focus:outline-none focus:ring-1 focus:ring-white/20
-                flex items-center gap-2 whitespace-nowrap"
-            >
-              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} 
-                  d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-              <span>Timelock (5min)</span>
-            </button>
-
-            <button
-              onClick={() => {
-                // Clear workspace first
-                handleClear();
-                
-                const newBlock: Block = {
-                  id: `eth-balance-${Date.now()}`,
-                  type: 'condition',
-                  category: BLOCK_CATEGORIES.CONDITIONS,
-                  label: 'ETH Balance',
-                  inputs: [
-                    { 
-                      id: 'chain', 
-                      type: ['value'], 
-                      label: 'Chain ID', 
-                      inputType: 'number',
-                      value: '11155111',
-                      placeholder: 'Enter any valid chain ID'
-                    },
-                    { 
-                      id: 'minBalance', 
-                      type: ['value'], 
-                      label: 'Wei', 
-                      inputType: 'number',
-                      value: '1',
-                      comparator: '>='
-                    }
-                  ],
-                  properties: {
-                    conditionType: 'rpc',
-                    method: 'eth_getBalance',
-                    parameters: [':userAddress', 'latest']
-                  },
-                  isTemplate: false
-                };
-                
-                setBlocks(prev => [...prev, newBlock]);
-              }}
-              className="px-3 py-1.5 bg-white/5 text-white/80 rounded-lg text-sm
-                border border-white/10 transition-all duration-200
-                hover:bg-white/10 hover:border-white/20 hover:text-white
-                focus:outline-none focus:ring-1 focus:ring-white/20
-                flex items-center gap-2 whitespace-nowrap"
-            >
-              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} 
-                  d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-              <span>ETH Balance (1 Wei)</span>
-            </button>
-
-            <button
-              onClick={() => {
-                // Clear workspace first
-                handleClear();
-                
-                const fiveMinutesFromNow = new Date();
-                fiveMinutesFromNow.setMinutes(fiveMinutesFromNow.getMinutes() + 5);
-                const timestamp = Math.floor(fiveMinutesFromNow.getTime() / 1000);
-                
-                // Create the compound AND condition with both timelock and ETH balance
-                const newBlock: Block = {
-                  id: `compound-${Date.now()}`,
-                  type: 'operator',
-                  category: BLOCK_CATEGORIES.OPERATORS,
-                  label: 'AND',
-                  inputs: [
-                    {
-                      id: `condition-1-${Date.now()}`,
-                      type: ['condition', 'operator'],
-                      label: 'Condition 1',
-                      connected: {
-                        id: `time-${Date.now()}`,
-                        type: 'condition',
-                        category: BLOCK_CATEGORIES.CONDITIONS,
-                        label: 'Time Lock',
-                        inputs: [
-                          { 
-                            id: 'chain', 
-                            type: ['value'], 
-                            label: 'Chain ID', 
-                            inputType: 'number',
-                            value: '11155111',
-                            placeholder: 'Enter any valid chain ID'
-                          },
-                          { 
-                            id: 'minTimestamp', 
-                            type: ['value'], 
-                            label: 'Minimum Timestamp', 
-                            inputType: 'number',
-                            value: timestamp.toString(),
-                            placeholder: 'Unix timestamp in seconds',
-                            comparator: '>='
-                          }
-                        ],
-                        properties: {
-                          conditionType: 'time'
-                        },
-                        isTemplate: false
-                      }
-                    },
-                    {
-                      id: `condition-2-${Date.now()}`,
-                      type: ['condition', 'operator'],
-                      label: 'Condition 2',
-                      connected: {
-                        id: `eth-balance-${Date.now()}`,
-                        type: 'condition',
-                        category: BLOCK_CATEGORIES.CONDITIONS,
-                        label: 'ETH Balance',
-                        inputs: [
-                          { 
-                            id: 'chain', 
-                            type: ['value'], 
-                            label: 'Chain ID', 
-                            inputType: 'number',
-                            value: '11155111',
-                            placeholder: 'Enter any valid chain ID'
-                          },
-                          { 
-                            id: 'minBalance', 
-                            type: ['value'], 
-                            label: 'Wei', 
-                            inputType: 'number',
-                            value: '1',
-                            comparator: '>='
-                          }
-                        ],
-                        properties: {
-                          conditionType: 'rpc',
-                          method: 'eth_getBalance',
-                          parameters: [':userAddress', 'latest']
-                        },
-                        isTemplate: false
-                      }
-                    },
-                    {
-                      id: `condition-3-${Date.now()}`,
-                      type: ['condition', 'operator'],
-                      label: 'Add Condition'
-                    }
-                  ],
-                  properties: {
-                    operator: 'and',
-                    maxInputs: 10
-                  },
-                  isTemplate: false
-                };
-                
-                setBlocks(prev => [...prev, newBlock]);
-              }}
-              className="px-3 py-1.5 bg-white/5 text-white/80 rounded-lg text-sm
-                border border-white/10 transition-all duration-200
-                hover:bg-white/10 hover:border-white/20 hover:text-white
-                focus:outline-none focus:ring-1 focus:ring-white/20
-                flex items-center gap-2 whitespace-nowrap"
-            >
-              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} 
-                  d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7" />
-              </svg>
-              <span>AND (Time + Balance)</span>
-            </button>
-
-            <button
-              onClick={() => {
-                // Clear workspace first
-                handleClear();
-                
-                const newBlock: Block = {
-                  id: `erc20-balance-${Date.now()}`,
-                  type: 'condition',
-                  category: BLOCK_CATEGORIES.CONDITIONS,
-                  label: 'ERC20 Balance',
-                  inputs: [
-                    { 
-                      id: 'chain', 
-                      type: ['value'], 
-                      label: 'Chain ID', 
-                      inputType: 'number',
-                      value: '11155111',
-                      placeholder: 'Enter any valid chain ID'
-                    },
-                    { 
-                      id: 'contractAddress', 
-                      type: ['value'], 
-                      label: 'Token Contract', 
-                      inputType: 'text',
-                      value: '0x779877A7B0D9E8603169DdbD7836e478b4624789', // Sepolia ChainLink token
-                      placeholder: 'Token contract address'
-                    },
-                    { 
-                      id: 'tokenAmount', 
-                      type: ['value'], 
-                      label: 'Token Amount', 
-                      inputType: 'number',
-                      value: '1',
-                      comparator: '>='
-                    }
-                  ],
-                  properties: {
-                    conditionType: 'contract',
-                    standardContractType: 'ERC20',
-                    method: 'balanceOf',
-                    parameters: [':userAddress'],
-                    returnValueTest: {
-                      comparator: '>=',
-                      value: '1'
-                    }
-                  },
-                  isTemplate: false
-                };
-                
-                setBlocks(prev => [...prev, newBlock]);
-              }}
-              className="px-3 py-1.5 bg-white/5 text-white/80 rounded-lg text-sm
-                border border-white/10 transition-all duration-200
-                hover:bg-white/10 hover:border-white/20 hover:text-white
-                focus:outline-none focus:ring-1 focus:ring-white/20
-                flex items-center gap-2 whitespace-nowrap"
-            >
-              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} 
-                  d="M9 8h6m-5 0a3 3 0 110 6H9l3 3m-3-6h6m6 1a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-              <span>ERC20 Balance</span>
-            </button>
-            
-            <button
-              onClick={() => {
-                // Clear workspace first
-                handleClear();
-                
-                const newBlock: Block = {
-                  id: `erc721-ownership-${Date.now()}`,
-                  type: 'condition',
-                  category: BLOCK_CATEGORIES.CONDITIONS,
-                  label: 'ERC721 Ownership',
-                  inputs: [
-                    { 
-                      id: 'chain', 
-                      type: ['value'], 
-                      label: 'Chain ID', 
-                      inputType: 'number',
-                      value: '11155111',
-                      placeholder: 'Enter any valid chain ID'
-                    },
-                    { 
-                      id: 'contractAddress', 
-                      type: ['value'], 
-                      label: 'NFT Contract', 
-                      inputType: 'text',
-                      value: '0x7C9e161ebe55F02A2810701e3F1C479c9dC0a3E8', // Example NFT on Sepolia
-                      placeholder: 'NFT contract address'
-                    },
-                    { 
-                      id: 'tokenId', 
-                      type: ['value'], 
-                      label: 'Token ID', 
-                      inputType: 'number',
-                      value: '1',
-                      comparator: '=='
-                    }
-                  ],
-                  properties: {
-                    conditionType: 'contract',
-                    standardContractType: 'ERC721',
-                    method: 'ownerOf',
-                    parameters: [':tokenId'],
-                    returnValueTest: {
-                      comparator: '==',
-                      value: ':userAddress'
-                    }
-                  },
-                  isTemplate: false
-                };
-                
-                setBlocks(prev => [...prev, newBlock]);
-              }}
-              className="px-3 py-1.5 bg-white/5 text-white/80 rounded-lg text-sm
-                border border-white/10 transition-all duration-200
-                hover:bg-white/10 hover:border-white/20 hover:text-white
-                focus:outline-none focus:ring-1 focus:ring-white/20
-                flex items-center gap-2 whitespace-nowrap"
-            >
-              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} 
-                  d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-              </svg>
-              <span>ERC721 Ownership</span>
-            </button>
-
-            <button
-              onClick={() => {
-                // Clear workspace first
-                handleClear();
-
-                const newBlock: Block = {
-                  id: `erc721-balance-${Date.now()}`,
-                  type: 'condition',
-                  category: BLOCK_CATEGORIES.CONDITIONS,
-                  label: 'ERC721 Balance',
-                  inputs: [
-                    {
-                      id: 'chain',
-                      type: ['value'],
-                      label: 'Chain ID',
-                      inputType: 'number',
-                      value: '137',
-                      placeholder: 'Enter any valid chain ID'
-                    },
-                    {
-                      id: 'contractAddress',
-                      type: ['value'],
-                      label: 'NFT Contract',
-                      inputType: 'text',
-                      value: '0x213Fb0f798263B51159871280061489Eae13C5B5', // Eth Denver NFT on Polygon Mainnet
-                      placeholder: 'NFT contract address'
-                    },
-                    {
-                      id: 'tokenAmount',
-                      type: ['value'],
-                      label: 'Token Amount',
-                      inputType: 'number',
-                      value: '1',
-                      comparator: '>='
-                    }
-                  ],
-                  properties: {
-                    conditionType: 'contract',
-                    standardContractType: 'ERC721',
-                    method: 'balanceOf',
-                    parameters: [':userAddress'],
-                    returnValueTest: {
-                      comparator: '>',
-                      value: 0
-                    }
-                  },
-                  isTemplate: false
-                };
-
-                setBlocks(prev => [...prev, newBlock]);
-              }}
-              className="px-3 py-1.5 bg-white/5 text-white/80 rounded-lg text-sm
-                border border-white/10 transition-all duration-200
-                hover:bg-white/10 hover:border-white/20 hover:text-white
-                focus:outline-none focus:ring-1 focus:ring-white/20
-                flex items-center gap-2 whitespace-nowrap"
-            >
-              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} 
-                  d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-              </svg>
-              <span>ERC721 Balance</span>
-            </button>
-
+          <button
+            onClick={() => setIsImportOpen(true)}
+            className="px-3 py-1.5 bg-white/5 text-white rounded-lg text-sm font-diatype font-bold
+              border border-white/10 transition-all duration-200
+              hover:bg-white/10 hover:border-white/20
+              focus:outline-none focus:ring-1 focus:ring-white/20"
+          >
+            Import JSON
+          </button>
+          {blocks.length > 0 && (
             <button
-              onClick={() => {
-                // Clear workspace first
-                handleClear();
-
-                const newBlock: Block = {
-                  id: `json-rpc-${Date.now()}`,
-                  type: 'condition',
-                  category: BLOCK_CATEGORIES.CONDITIONS,
-                  label: 'JSON RPC',
-                  inputs: [
-                    {
-                      id: 'endpoint',
-                      type: ['value'],
-                      label: 'Endpoint URI',
-                      inputType: 'text',
-                      value: 'https://bitcoin-rpc.publicnode.com',
-                    },
-                    {
-                      id: 'method',
-                      type: ['value'],
-                      label: 'Method',
-                      inputType: 'text',
-                      value: 'getblock',
-                    },
-                    {
-                      id: 'param_0',
-                      type: ['value'],
-                      label: 'Parameter 1',
-                      inputType: 'text',
-                      value: '00000000000000000001ed4d40e6b602d7f09b9d47d5e046d52339cc6673a486'
-                    },
-                    {
-                      id: 'authorizationToken',
-                      type: ['value'],
-                      label: 'Authorization Token',
-                      inputType: 'text',
-                    },
-                    {
-                      id: 'query',
-                      type: ['value'],
-                      label: 'JSON Path Query',
-                      inputType: 'text',
-                      value: '$.time',
-                    },
-                    {
-                      id: 'expectedValue',
-                      type: ['value'],
-                      label: 'Expected Value',
-                      inputType: 'number',
-                      comparator: '>='
-                    }
-                  ],
-                  properties: {
-                    conditionType: 'json-rpc',
-                    canAddParameters: true,
-                    parameterCount: 1,
-                    returnValueTest: {
-                      comparator: '>=',
-                      value: 1734461294
-                    }
-                  },
-                  isTemplate: false
-                };
-
-                setBlocks(prev => [...prev, newBlock]);
-              }}
-              className="px-3 py-1.5 bg-white/5 text-white/80 rounded-lg text-sm
+              onClick={handleClear}
+              className="px-3 py-1.5 bg-white/5 text-white rounded-lg text-sm font-diatype font-bold
                 border border-white/10 transition-all duration-200
-                hover:bg-white/10 hover:border-white/20 hover:text-white
-                focus:outline-none focus:ring-1 focus:ring-white/20
-                flex items-center gap-2 whitespace-nowrap"
+                hover:bg-white/10 hover:border-white/20
+                focus:outline-none focus:ring-1 focus:ring-white/20"
             >
-              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} 
-                  d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-              </svg>
-              <span>JSON RPC</span>
+              Clear
             </button>
-          </div>
+          )}
         </div>
       </div>
 
@@ -799,14 +388,17 @@ const BlockWorkspace: React.FC<BlockWorkspaceProps> = ({ onConditionChange }) =>
         `}
       >
         <div className="space-y-4 min-w-full">
-          {blocks.map((block) => (
-            <DraggableBlock
-              key={block.id}
-              block={block}
-              isWorkspaceBlock={true}
-              onBlockUpdate={handleBlockUpdate}
-            />
-          ))}
+          <ContextVariablesContext.Provider value={contextVariables}>
+            {blocks.map((block) => (
+              <DraggableBlock
+                key={block.id}
+                block={block}
+                isWorkspaceBlock={true}
+                onBlockUpdate={handleBlockUpdate}
+                onDropRejected={setDropError}
+              />
+            ))}
+          </ContextVariablesContext.Provider>
           {blocks.length === 0 && (
             <div className="flex items-center justify-center h-full min-h-[200px]">
               <div className="text-white/40 text-sm font-medium">
@@ -817,6 +409,14 @@ const BlockWorkspace: React.FC<BlockWorkspaceProps> = ({ onConditionChange }) =>
         </div>
       </div>
 
+      {onContextVariablesChange && (
+        <ContextVariablesPanel
+          variables={contextVariables}
+          onChange={onContextVariablesChange}
+          usedVariables={usedVariables}
+        />
+      )}
+
       {dropError && (
         <div className="mt-3 p-3 bg-red-500/5 border border-red-500/20 rounded-lg
           text-red-400 text-sm font-medium animate-fade-in">
@@ -829,6 +429,42 @@ const BlockWorkspace: React.FC<BlockWorkspaceProps> = ({ onConditionChange }) =>
           </div>
         </div>
       )}
+
+      {importWarnings.length > 0 && (
+        <div className="mt-3 p-3 bg-yellow-500/5 border border-yellow-500/20 rounded-lg
+          text-yellow-400 text-sm font-medium">
+          <div className="flex items-start justify-between gap-2">
+            <div className="space-y-1">
+              <span>Some parts of the imported condition could not be mapped to blocks:</span>
+              <ul className="list-disc pl-5 font-mono text-xs space-y-0.5">
+                {importWarnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+            <button
+              onClick={() => setImportWarnings([])}
+              className="text-yellow-400 hover:text-yellow-300 transition-colors duration-200"
+            >
+              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ImportJsonDialog
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImport={handleImport}
+      />
+
+      <TemplateGallery
+        isOpen={isTemplatesOpen}
+        onClose={() => setIsTemplatesOpen(false)}
+        onInsert={handleInsertTemplate}
+      />
     </div>
   );
 };
@@ -1,20 +1,29 @@
 import React from 'react';
+import { Comparator } from '../../types/taco';
 
 export interface ComparatorSelectProps {
   value: string;
   onChange: (value: string) => void;
   className?: string;
+  disabled?: boolean;
+  // Comparators offered; defaults to all of them
+  comparators?: Comparator[];
 }
 
+const COMPARATOR_OPTIONS: Comparator[] = ['>=', '>', '<=', '<', '==', '!='];
+
 export const ComparatorSelect: React.FC<ComparatorSelectProps> = ({ 
   value, 
   onChange,
-  className = ''
+  className = '',
+  disabled = false,
+  comparators = COMPARATOR_OPTIONS
 }) => {
   return (
     <select
       value={value}
       onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
       className={`
         px-2 py-1.5 text-sm 
         bg-black/30 text-white 
@@ -28,14 +37,15 @@ export const ComparatorSelect: React.FC<ComparatorSelectProps> = ({
         pr-7
         transition-all duration-200
         hover:border-white/10 hover:bg-white/[0.06]
+        disabled:opacity-70 disabled:cursor-default
         ${className}
       `}
     >
-      <option value=">=">&gt;=</option>
-      <option value=">">&gt;</option>
-      <option value="<=">&lt;=</option>
-      <option value="<">&lt;</option>
-      <option value="==">==</option>
+      {COMPARATOR_OPTIONS
+        .filter(comparator => comparators.includes(comparator))
+        .map((comparator) => (
+          <option key={comparator} value={comparator}>{comparator}</option>
+        ))}
     </select>
   );
 }; 
\ No newline at end of file
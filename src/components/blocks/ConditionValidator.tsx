@@ -1,8 +1,8 @@
 'use client';
 
 import React from 'react';
-import { conditions } from '@nucypher/taco';
-import { TacoCondition, ChainId } from '../../types/taco';
+import { TacoCondition } from '../../types/taco';
+import { validateCondition } from './blockRegistry';
 
 // Define supported chains (can be moved to a shared constants file)
 const SUPPORTED_CHAINS = [
@@ -17,115 +17,43 @@ interface ConditionValidatorProps {
 }
 
 const ConditionValidator: React.FC<ConditionValidatorProps> = ({ condition }) => {
-  const validateCondition = React.useCallback((cond: TacoCondition | null): boolean => {
-    if (!cond) return false;
-
-    try {
-      // Handle compound conditions
-      if (cond.conditionType === 'compound') {
-        if (!cond.operator || !cond.operands || !Array.isArray(cond.operands)) {
-          return false;
-        }
-        // Validate each operand recursively
-        return cond.operands.every(operand => validateCondition(operand));
-      }
-
-      // Validate chain ID for on-chain conditions
-      if ('chain' in cond && !SUPPORTED_CHAINS.some(chain => chain.id === cond.chain)) {
-        console.error(`Unsupported chain ID: ${cond.chain}`);
-        return false;
-      }
-
-      // Handle different condition types
-      switch (cond.conditionType) {
-        case 'rpc': {
-          if (cond.method === 'eth_getBalance') {
-            if (!Array.isArray(cond.parameters) || cond.parameters.length !== 2 ||
-                cond.parameters[0] !== ':userAddress' || cond.parameters[1] !== 'latest') {
-              return false;
-            }
-            new conditions.base.rpc.RpcCondition({
-              chain: cond.chain as ChainId,
-              method: cond.method,
-              parameters: cond.parameters,
-              returnValueTest: cond.returnValueTest
-            });
-            return true;
-          }
-          return false;
-        }
-
-        case 'time': {
-          new conditions.base.time.TimeCondition({
-            chain: cond.chain as ChainId,
-            method: cond.method,
-            returnValueTest: cond.returnValueTest
-          });
-          return true;
-        }
-
-        case 'contract': {
-          if (!cond.contractAddress || !cond.method) {
-            return false;
-          }
-
-          // Create base contract condition
-          const baseCondition = {
-            chain: cond.chain as ChainId,
-            contractAddress: cond.contractAddress,
-            method: cond.method,
-            parameters: cond.parameters,
-            returnValueTest: cond.returnValueTest
-          };
-
-          // Only add standardContractType if it's ERC20 or ERC721
-          if (cond.standardContractType === 'ERC20' || cond.standardContractType === 'ERC721') {
-            Object.assign(baseCondition, { standardContractType: cond.standardContractType });
-          }
-
-          // Add functionAbi if present and properly formatted
-          if (cond.functionAbi) {
-            Object.assign(baseCondition, { functionAbi: cond.functionAbi });
-          }
-
-          new conditions.base.contract.ContractCondition(baseCondition);
-          return true;
-        }
+  const hasSupportedChains = React.useCallback((cond: TacoCondition): boolean => {
+    if (cond.conditionType === 'compound') {
+      return Array.isArray(cond.operands) && cond.operands.every(operand => hasSupportedChains(operand));
+    }
+    if (cond.conditionType === 'sequential') {
+      return Array.isArray(cond.conditionVariables) &&
+        cond.conditionVariables.every(step => hasSupportedChains(step.condition));
+    }
+    if (cond.conditionType === 'if-then-else') {
+      return [cond.ifCondition, cond.thenCondition, cond.elseCondition]
+        .every(branch => typeof branch === 'boolean' || (Boolean(branch) && hasSupportedChains(branch)));
+    }
 
-        case 'json-rpc': {
-          // Create base json rpc condition
-          const baseCondition = {
-            endpoint: cond.endpoint,
-            method: cond.method,
-            returnValueTest: cond.returnValueTest
-          };
+    // Validate chain ID for on-chain conditions
+    if ('chain' in cond && !SUPPORTED_CHAINS.some(chain => chain.id === cond.chain)) {
+      console.error(`Unsupported chain ID: ${cond.chain}`);
+      return false;
+    }
+    return true;
+  }, []);
 
-          if (cond.params) {
-            Object.assign(baseCondition, { params: cond.params });
-          }
-          if (cond.query) {
-            Object.assign(baseCondition, { query: cond.query });
-          }
-          if (cond.authorizationToken) {
-            Object.assign(baseCondition, { authorizationToken: cond.authorizationToken });
-          }
-          new conditions.base.jsonRpc.JsonRpcCondition(baseCondition);
-          return true;
-        }
+  const isConditionValid = React.useCallback((cond: TacoCondition | null): boolean => {
+    if (!cond || !hasSupportedChains(cond)) return false;
 
-        default:
-          return false;
-      }
-    } catch (error) {
+    // Each registered block validates the conditions it produces
+    const error = validateCondition(cond);
+    if (error) {
       console.error('Validation error:', error);
       return false;
     }
-  }, []);
+    return true;
+  }, [hasSupportedChains]);
 
   const isValid = React.useMemo(() => {
     console.log('Validating condition:', condition);
-    return validateCondition(condition);
-  }, [condition, validateCondition]);
+    return isConditionValid(condition);
+  }, [condition, isConditionValid]);
 
   return (
     <div className="flex items-center gap-2">
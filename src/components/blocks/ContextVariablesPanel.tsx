@@ -0,0 +1,129 @@
+'use client';
+
+import React from 'react';
+import { OptionSelect } from './OptionSelect';
+import {
+  checkContextVariableName,
+  CONTEXT_VARIABLE_TYPE_LABELS,
+  CONTEXT_VARIABLE_TYPES,
+  ContextVariable,
+  ContextVariableType
+} from '../../utils/contextVariables';
+
+// The variables declared in the workspace, for the blocks that offer them in their inputs
+export const ContextVariablesContext = React.createContext<ContextVariable[]>([]);
+
+// Id of the datalist that suggests context variables in parameter inputs
+export const CONTEXT_VARIABLE_LIST_ID = 'taco-context-variables';
+
+interface ContextVariablesPanelProps {
+  variables: ContextVariable[];
+  onChange: (variables: ContextVariable[]) => void;
+  // Custom variables the current condition reads, so undeclared ones can be declared in one click
+  usedVariables: string[];
+}
+
+const inputClassName = `px-2 py-1 text-xs bg-black/30 border border-white/5 rounded
+  focus:outline-none focus:border-white/20 placeholder-white/20`;
+
+const buttonClassName = `px-2 py-1 text-xs bg-white/5 text-white/60 rounded
+  hover:bg-white/10 hover:text-white/80 transition-all duration-200`;
+
+// Declares the custom context variables (e.g. :inviteCode) that are asked for when decrypting
+export const ContextVariablesPanel: React.FC<ContextVariablesPanelProps> = ({
+  variables,
+  onChange,
+  usedVariables
+}) => {
+  const names = variables.map(variable => variable.name);
+  const undeclared = usedVariables.filter(name => !names.includes(name));
+
+  const updateVariable = (index: number, update: Partial<ContextVariable>) => {
+    onChange(variables.map((variable, i) => i === index ? { ...variable, ...update } : variable));
+  };
+
+  const addVariable = (name?: string) => {
+    let count = variables.length + 1;
+    while (!name && names.includes(`:variable${count}`)) count++;
+    onChange([...variables, { name: name || `:variable${count}`, type: 'string', description: '' }]);
+  };
+
+  return (
+    <div className="p-3 bg-white/[0.02] border border-white/10 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-white/60 uppercase tracking-wide">Context Variables</span>
+        <button onClick={() => addVariable()} className={buttonClassName}>
+          Add variable
+        </button>
+      </div>
+
+      {variables.length === 0 && (
+        <p className="text-xs text-white/30">
+          Declare values such as :inviteCode to use in any parameter; they are asked for when decrypting.
+        </p>
+      )}
+
+      {variables.map((variable, index) => {
+        const error = checkContextVariableName(variable.name, names);
+        return (
+          <div key={index} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={variable.name}
+                // Names always keep their leading colon
+                onChange={(e) => updateVariable(index, { name: `:${e.target.value.replace(/^:+/, '')}` })}
+                autoComplete="off"
+                data-form-type="other"
+                className={`${inputClassName} w-36 font-mono`}
+              />
+              <OptionSelect
+                value={variable.type}
+                options={CONTEXT_VARIABLE_TYPES.map(type => ({ value: type, label: CONTEXT_VARIABLE_TYPE_LABELS[type] }))}
+                onChange={(type: string) => updateVariable(index, { type: type as ContextVariableType })}
+                className="w-24"
+                title="Type"
+              />
+              <input
+                type="text"
+                value={variable.description}
+                onChange={(e) => updateVariable(index, { description: e.target.value })}
+                placeholder="Description shown when decrypting"
+                autoComplete="off"
+                data-form-type="other"
+                className={`${inputClassName} flex-1`}
+              />
+              <button
+                onClick={() => onChange(variables.filter((_, i) => i !== index))}
+                title="Remove variable"
+                className="p-1 text-white/40 hover:text-red-400 transition-colors duration-200"
+              >
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            {error && <span className="text-xs text-red-400">{error}</span>}
+          </div>
+        );
+      })}
+
+      {undeclared.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs text-yellow-200/80">
+          <span>Used but not declared:</span>
+          {undeclared.map(name => (
+            <button key={name} onClick={() => addVariable(name)} className={`${buttonClassName} font-mono`}>
+              {name} +
+            </button>
+          ))}
+        </div>
+      )}
+
+      <datalist id={CONTEXT_VARIABLE_LIST_ID}>
+        {Array.from(new Set([':userAddress', ...names])).map(name => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
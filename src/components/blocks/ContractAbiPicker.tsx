@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { utils } from 'ethers';
+import { OptionSelect } from './OptionSelect';
+import { AbiFragment, extractContractAbi, getFunctionSignature, getReadFunctions } from '../../utils/abi';
+import { loadCachedAbi, saveCachedAbi } from '../../utils/abiCache';
+
+interface ContractAbiPickerProps {
+  chain: number;
+  contractAddress: string;
+  // Signature of the function the block currently calls
+  selectedSignature?: string;
+  onSelect: (fragment: AbiFragment) => void;
+  disabled?: boolean;
+}
+
+const buttonClassName = `px-2 py-1 text-xs bg-white/5 text-white/60 rounded
+  hover:bg-white/10 hover:text-white/80 transition-all duration-200
+  disabled:opacity-50 disabled:cursor-not-allowed`;
+
+// Loads a full contract ABI (pasted or uploaded) and offers its view and pure functions
+export const ContractAbiPicker: React.FC<ContractAbiPickerProps> = ({
+  chain,
+  contractAddress,
+  selectedSignature,
+  onSelect,
+  disabled = false
+}) => {
+  const [abi, setAbi] = useState<AbiFragment[] | null>(null);
+  const [isPasting, setIsPasting] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const hasAddress = utils.isAddress(contractAddress.toLowerCase());
+
+  // Reuse the ABI cached for this contract, if any
+  useEffect(() => {
+    setAbi(hasAddress ? loadCachedAbi(chain, contractAddress) : null);
+  }, [chain, contractAddress, hasAddress]);
+
+  const functions = abi ? getReadFunctions(abi) : [];
+
+  const applyAbi = (abiText: string) => {
+    try {
+      const parsed = extractContractAbi(abiText);
+      if (!getReadFunctions(parsed).length) {
+        throw new Error('The ABI has no view or pure functions');
+      }
+      if (hasAddress) {
+        saveCachedAbi(chain, contractAddress, parsed);
+      }
+      setAbi(parsed);
+      setIsPasting(false);
+      setText('');
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read ABI');
+    }
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be picked again
+    event.target.value = '';
+    if (!file) return;
+
+    applyAbi(await file.text());
+  };
+
+  const handleSelect = (signature: string) => {
+    const fragment = functions.find(fn => getFunctionSignature(fn) === signature);
+    if (fragment) onSelect(fragment);
+  };
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      {functions.length > 0 && (
+        <OptionSelect
+          value={functions.some(fn => getFunctionSignature(fn) === selectedSignature) ? selectedSignature as string : ''}
+          options={[
+            { value: '', label: 'Select a function…' },
+            ...functions.map(fn => ({ value: getFunctionSignature(fn), label: getFunctionSignature(fn) }))
+          ]}
+          onChange={handleSelect}
+          className="w-full"
+          disabled={disabled}
+          title="Function to call"
+        />
+      )}
+
+      {!disabled && (
+        <div className="flex items-center gap-2">
+          <button onClick={() => setIsPasting(!isPasting)} className={buttonClassName}>
+            {abi ? 'Replace contract ABI' : 'Paste contract ABI'}
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+            Upload artifact
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleUpload}
+            className="hidden"
+          />
+          {!hasAddress && (
+            <span className="text-xs text-white/30">Set the contract address to remember the ABI</span>
+          )}
+        </div>
+      )}
+
+      {isPasting && (
+        <div className="flex flex-col gap-1.5">
+          <textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setError('');
+            }}
+            placeholder='[{ "type": "function", "name": "balanceOf", ... }] or a Hardhat/Foundry artifact'
+            autoComplete="off"
+            data-form-type="other"
+            className="w-full h-24 px-2 py-1.5 text-xs font-mono bg-black/30 border border-white/5 rounded
+              focus:outline-none focus:border-white/20 placeholder-white/20"
+          />
+          <div className="flex justify-end">
+            <button onClick={() => applyAbi(text)} disabled={!text.trim()} className={buttonClassName}>
+              Use ABI
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+};
@@ -2,21 +2,63 @@
 
 import React, { useRef, useCallback } from 'react';
 import { useDrag } from 'react-dnd';
+import { USER_ADDRESS_PARAM_DEFAULT, USER_ADDRESS_PARAM_EXTERNAL_EIP4361 } from '@nucypher/taco-auth';
 import { Block, BlockInput } from './BlockTypes';
 import { ComparatorSelect } from './ComparatorSelect';
+import { OptionSelect } from './OptionSelect';
 import { DropTarget } from './DropTarget';
-import { DragItem, DragRef } from './types';
+import { compileBlock, createBlock, isConditionSocket } from './blockRegistry';
+import { ContractAbiPicker } from './ContractAbiPicker';
+import { AbiParameterEditor } from './AbiParameterEditor';
+import { AddressListEditor } from './AddressListEditor';
+import { TimeExpressionInput } from './TimeExpressionInput';
+import { CONTEXT_VARIABLE_LIST_ID, ContextVariablesContext } from './ContextVariablesPanel';
+import { convertAmountInput, isArgumentInput, parseChainId, setFunctionArguments } from './blockHelpers';
+import { getContractInputErrors, syncFunctionArguments } from './blockUtils';
+import { AmountUnit, UNIT_LABELS } from '../../utils/units';
+import {
+  getComparatorsForType,
+  parseReturnValue,
+  RETURN_VALUE_TYPE_LABELS,
+  RETURN_VALUE_TYPES,
+  ReturnValueType
+} from '../../utils/returnValues';
+import {
+  AbiFragment,
+  AbiParameter,
+  describeOutput,
+  formatArgumentValue,
+  getFunctionOutputs,
+  getFunctionSignature,
+  getReturnValueTypeForAbiType,
+  parseFunctionAbi
+} from '../../utils/abi';
+import { formatZonedDateTime, getTimeZones, parseZonedDateTime } from '../../utils/time';
+import { AUTH_CONTEXT_VARIABLES, findContextVariables } from '../../utils/contextVariables';
+import { BlockUpdateOptions, DragItem, DragRef } from './types';
+
+const USER_ADDRESS_PARAM_OPTIONS = [
+  { value: USER_ADDRESS_PARAM_DEFAULT, label: 'Wallet sign-in' },
+  { value: USER_ADDRESS_PARAM_EXTERNAL_EIP4361, label: 'External SIWE' }
+];
+
+const isTimeWindowInput = (input: BlockInput) => input.id === 'opensAt' || input.id === 'closesAt';
 
 interface DraggableBlockProps {
   block: Block;
   isWorkspaceBlock?: boolean;
-  onBlockUpdate?: (updatedBlock: Block) => void;
+  onBlockUpdate?: (updatedBlock: Block, options?: BlockUpdateOptions) => void;
+  // Explains drops that an input socket rejected
+  onDropRejected?: (message: string) => void;
+  isReadOnly?: boolean;
 }
 
 const DraggableBlock: React.FC<DraggableBlockProps> = ({ 
   block,
   isWorkspaceBlock = false,
   onBlockUpdate,
+  onDropRejected,
+  isReadOnly = false,
 }) => {
   const elementRef = useRef<HTMLDivElement>(null);
 
@@ -34,6 +76,7 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
         if (parentInput?.connected) {
           const connectedBlock = parentInput.connected;
           const targetInput = connectedBlock.inputs?.find((input: BlockInput) => input.id === inputId);
+          if (targetInput?.readOnly) return { handled: true };
           if (targetInput) {
             targetInput.value = item.value;
             // Update the parent input with the modified connected block
@@ -45,6 +88,7 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
       } else {
         // Handle direct drops into inputs
         const input = updatedBlock.inputs?.find((input: BlockInput) => input.id === inputId);
+        if (input?.readOnly) return { handled: true };
         if (input) {
           input.value = item.value;
           onBlockUpdate(updatedBlock);
@@ -77,7 +121,7 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
           targetInput.connected = droppedBlock;
 
           // If this is an operator block, add a new input slot if needed
-          if (connectedBlock.type === 'operator') {
+          if (connectedBlock.type === 'operator' && !connectedBlock.properties?.fixedInputs) {
             const connectedCount = connectedBlock.inputs?.filter((input: BlockInput) => input.connected).length || 0;
             const maxInputs = connectedBlock.properties?.maxInputs;
             const lastInput = connectedBlock.inputs?.[connectedBlock.inputs.length - 1];
@@ -85,7 +129,7 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
             if (lastInput?.id === inputId && (!maxInputs || connectedCount < maxInputs)) {
               connectedBlock.inputs.push({
                 id: `condition-${Date.now()}`,
-                type: ['condition', 'operator'],
+                type: ['condition'],
                 label: 'Add Condition'
               });
             }
@@ -116,6 +160,12 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
 
         input.connected = droppedBlock;
 
+        // Fixed sockets (e.g. If / Then / Else) keep their labels and never grow
+        if (updatedBlock.properties?.fixedInputs) {
+          onBlockUpdate(updatedBlock);
+          return { handled: true };
+        }
+
         // Update the label to show the condition number
         const connectedCount = updatedBlock.inputs?.filter((input: BlockInput) => input.connected).length || 0;
         input.label = `Condition ${connectedCount}`;
@@ -129,7 +179,7 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
             (!maxInputs || connectedCount < maxInputs)) {
           updatedBlock.inputs.push({
             id: `condition-${Date.now()}`,
-            type: ['condition', 'operator'],
+            type: ['condition'],
             label: 'Add Condition'
           });
         }
@@ -155,20 +205,23 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
       const newId = isWorkspaceBlock ? block.id : `${block.id}-${Date.now()}`;
       const newBlock: DragItem = {
         id: newId,
+        definitionId: block.definitionId,
         type: block.type,
         category: block.category,
         label: block.label,
         inputs: block.inputs,
         properties: block.properties,
         value: block.value,
+        kind: block.kind,
         isTemplate: !isWorkspaceBlock,
       };
       return newBlock;
     },
+    canDrag: () => !isReadOnly,
     collect: (monitor) => ({
       isDragging: monitor.isDragging(),
     }),
-  }), [block, isWorkspaceBlock]);
+  }), [block, isWorkspaceBlock, isReadOnly]);
 
   // Combine refs utility
   const combineRefs = useCallback((...refs: DragRef[]) => {
@@ -188,6 +241,10 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
 
     const value = e.target.value;
     const updatedBlock = JSON.parse(JSON.stringify(block));
+    // Keystrokes in the same input are merged into a single undo step
+    const updateOptions: BlockUpdateOptions = {
+      coalesceKey: [block.id, ...(parentPath || []), inputId].join('/')
+    };
     
     // Helper function to find and update nested input following a path
     const findAndUpdateInput = (currentBlock: Block, targetInputId: string, path: string[]): boolean => {
@@ -216,7 +273,7 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
     if (parentPath && parentPath.length > 0) {
       // Find the input by following the parent path
       if (findAndUpdateInput(updatedBlock, inputId, parentPath)) {
-        onBlockUpdate(updatedBlock);
+        onBlockUpdate(updatedBlock, updateOptions);
       }
     } else {
       // Handle top-level inputs
@@ -230,10 +287,218 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
           input.value = value;
         }
 
+        // A valid function ABI gets one typed input per argument
+        if (inputId === 'abi') {
+          syncFunctionArguments(updatedBlock);
+        }
+
         // Immediately update the block to trigger JSON preview update
-        onBlockUpdate(updatedBlock);
+        onBlockUpdate(updatedBlock, updateOptions);
+      }
+    }
+  };
+
+  // Outputs of the function ABI entered on contract blocks, for picking the compared output
+  const functionOutputs = getFunctionOutputs(block.inputs?.find(input => input.id === 'abi')?.value);
+  // Parse and type errors in the ABI, method and parameters of contract blocks
+  const contractErrors = block.type === 'condition' ? getContractInputErrors(block) : {};
+
+  // ABI inputs of the function arguments, which are edited by type
+  const argumentParameters = React.useMemo((): AbiParameter[] => {
+    try {
+      return parseFunctionAbi(block.inputs?.find(input => input.id === 'abi')?.value || '').inputs;
+    } catch {
+      return [];
+    }
+  }, [block.inputs]);
+
+  // Context variables offered in argument fields: :userAddress and any custom variable already used on the block
+  const declaredVariables = React.useContext(ContextVariablesContext);
+  const contextVariables = React.useMemo(() => {
+    const used = (block.inputs || []).flatMap(input => input.value?.match(/:[a-zA-Z_][a-zA-Z0-9_]*/g) || []);
+    return Array.from(new Set([':userAddress', ...declaredVariables.map(variable => variable.name), ...used]));
+  }, [block.inputs, declaredVariables]);
+
+  // Conditions on the user's address can read it from the wallet's sign-in or an externally signed SIWE message
+  const readsUserAddress = React.useMemo(() => {
+    if (block.type !== 'condition' || !isWorkspaceBlock) return false;
+    try {
+      return findContextVariables(compileBlock(block)).some(name => AUTH_CONTEXT_VARIABLES.includes(name));
+    } catch {
+      return false;
+    }
+  }, [block, isWorkspaceBlock]);
+
+  // Time window bounds are picked as dates in the block's time zone
+  const timeZone = block.inputs?.find(input => input.id === 'timeZone')?.value || 'UTC';
+  const timeZones = React.useMemo(() => getTimeZones(), []);
+
+  const handleArgumentChange = (inputId: string, value: unknown) => {
+    if (!onBlockUpdate || !isWorkspaceBlock) return;
+
+    const updatedBlock = JSON.parse(JSON.stringify(block));
+    const input = updatedBlock.inputs?.find((input: BlockInput) => input.id === inputId);
+
+    if (input) {
+      input.value = formatArgumentValue(value);
+      // Typing into the same argument is a single undo step
+      onBlockUpdate(updatedBlock, { coalesceKey: [block.id, inputId].join('/') });
+    }
+  };
+
+  // Inputs edited through their own controls (address lists, time pickers) rather than a plain text field
+  const handleInputValueChange = (inputId: string, value: string) => {
+    if (!onBlockUpdate || !isWorkspaceBlock) return;
+
+    const updatedBlock = JSON.parse(JSON.stringify(block));
+    const input = updatedBlock.inputs?.find((input: BlockInput) => input.id === inputId);
+
+    if (input) {
+      input.value = value;
+      // Typing into the same input is a single undo step
+      onBlockUpdate(updatedBlock, { coalesceKey: [block.id, inputId].join('/') });
+    }
+  };
+
+  // Moments keep their wall-clock time in the new zone, so the picked dates stay as entered
+  const handleTimeZoneChange = (inputId: string, timeZone: string) => {
+    if (!onBlockUpdate || !isWorkspaceBlock) return;
+
+    const updatedBlock = JSON.parse(JSON.stringify(block));
+    const previousZone = block.inputs?.find(input => input.id === inputId)?.value || 'UTC';
+    updatedBlock.inputs?.forEach((input: BlockInput) => {
+      if (input.id === inputId) {
+        input.value = timeZone;
+      } else if (isTimeWindowInput(input) && /^\d+$/.test(input.value?.trim() || '')) {
+        try {
+          const wallClock = formatZonedDateTime(Number(input.value), previousZone);
+          input.value = String(parseZonedDateTime(wallClock, timeZone));
+        } catch {
+          // Moments that cannot be converted keep their timestamp
+        }
+      }
+    });
+    onBlockUpdate(updatedBlock);
+  };
+
+  // Later steps of a sequential condition read a step's result under this name
+  const handleStepNameChange = (inputId: string, varName: string) => {
+    if (!onBlockUpdate || !isWorkspaceBlock) return;
+
+    const updatedBlock = JSON.parse(JSON.stringify(block));
+    const input = updatedBlock.inputs?.find((input: BlockInput) => input.id === inputId);
+
+    if (input) {
+      input.varName = varName;
+      onBlockUpdate(updatedBlock, { coalesceKey: [block.id, inputId, 'varName'].join('/') });
+    }
+  };
+
+  const handleUserAddressParamChange = (userAddressParam: string) => {
+    if (!onBlockUpdate || !isWorkspaceBlock) return;
+
+    const updatedBlock = JSON.parse(JSON.stringify(block));
+    updatedBlock.properties = { ...updatedBlock.properties, userAddressParam };
+    if (userAddressParam === USER_ADDRESS_PARAM_DEFAULT) {
+      delete updatedBlock.properties.userAddressParam;
+    }
+    onBlockUpdate(updatedBlock);
+  };
+
+  // Lists longer than TACo allows are checked through a contract instead; the block keeps its place
+  const handleUseAllowlistContract = () => {
+    if (!onBlockUpdate || !isWorkspaceBlock) return;
+
+    onBlockUpdate({ ...createBlock('wallet-allowlist-contract'), id: block.id });
+  };
+
+  const handleUnitChange = (inputId: string, unit: AmountUnit) => {
+    if (!onBlockUpdate || !isWorkspaceBlock) return;
+
+    const updatedBlock = JSON.parse(JSON.stringify(block));
+    const input = updatedBlock.inputs?.find((input: BlockInput) => input.id === inputId);
+
+    if (input) {
+      input.unit = unit;
+      onBlockUpdate(updatedBlock);
+    }
+  };
+
+  const handleValueTypeChange = (inputId: string, valueType: ReturnValueType) => {
+    if (!onBlockUpdate || !isWorkspaceBlock) return;
+
+    const updatedBlock = JSON.parse(JSON.stringify(block));
+    const input = updatedBlock.inputs?.find((input: BlockInput) => input.id === inputId);
+
+    if (input) {
+      input.valueType = valueType;
+      // Only numbers can be ordered, so fall back to equality for other types
+      if (!getComparatorsForType(valueType).includes(input.comparator || '>=')) {
+        input.comparator = '==';
+      }
+      onBlockUpdate(updatedBlock);
+    }
+  };
+
+  const handleOutputIndexChange = (inputId: string, outputIndex: number) => {
+    if (!onBlockUpdate || !isWorkspaceBlock) return;
+
+    const updatedBlock = JSON.parse(JSON.stringify(block));
+    const input = updatedBlock.inputs?.find((input: BlockInput) => input.id === inputId);
+    const output = functionOutputs[outputIndex];
+
+    if (input && output) {
+      input.outputIndex = outputIndex;
+      // Compare the new output as the type the ABI declares for it
+      const valueType = getReturnValueTypeForAbiType(output.type);
+      if (valueType && input.valueType) {
+        input.valueType = valueType;
+        if (!getComparatorsForType(valueType).includes(input.comparator || '>=')) {
+          input.comparator = '==';
+        }
+      }
+      onBlockUpdate(updatedBlock);
+    }
+  };
+
+  // Signature of the function in the block's ABI input, matched against the functions of a loaded contract ABI
+  const selectedSignature = React.useMemo(() => {
+    const abiText = block.inputs?.find(input => input.id === 'abi')?.value;
+    if (!abiText?.trim()) return undefined;
+    try {
+      return getFunctionSignature(JSON.parse(abiText));
+    } catch {
+      return undefined;
+    }
+  }, [block.inputs]);
+
+  const handleFunctionSelect = (fragment: AbiFragment) => {
+    if (!onBlockUpdate || !isWorkspaceBlock) return;
+
+    const updatedBlock = JSON.parse(JSON.stringify(block));
+    const setValue = (inputId: string, value: string) => {
+      const input = updatedBlock.inputs?.find((input: BlockInput) => input.id === inputId);
+      if (input) input.value = value;
+    };
+
+    setValue('method', fragment.name || '');
+    setValue('abi', JSON.stringify(fragment));
+    setFunctionArguments(updatedBlock, fragment.inputs || []);
+
+    // Compare the first output by default, as the type the ABI declares for it
+    const expectedValueInput = updatedBlock.inputs?.find((input: BlockInput) => input.id === 'expectedValue');
+    const valueType = fragment.outputs?.[0] && getReturnValueTypeForAbiType(fragment.outputs[0].type);
+    if (expectedValueInput) {
+      expectedValueInput.outputIndex = undefined;
+      if (valueType) {
+        expectedValueInput.valueType = valueType;
+        if (!getComparatorsForType(valueType).includes(expectedValueInput.comparator || '>=')) {
+          expectedValueInput.comparator = '==';
+        }
       }
     }
+
+    onBlockUpdate(updatedBlock);
   };
 
   const handleComparatorChange = (inputId: string, comparator: string) => {
@@ -259,11 +524,17 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
         targetInput.connected = undefined;
       }
 
+      // Fixed sockets are only emptied
+      if (updatedBlock.properties?.fixedInputs) {
+        onBlockUpdate(updatedBlock);
+        return;
+      }
+
       // Filter out empty slots except the last one
       const nonEmptyInputs = updatedBlock.inputs.filter((input: BlockInput) => input.connected);
       const lastEmptyInput = {
         id: `condition-${Date.now()}`,
-        type: ['condition', 'operator'],
+        type: ['condition'],
         label: 'Add Condition'
       };
 
@@ -286,12 +557,14 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
     const updatedBlock = JSON.parse(JSON.stringify(block));
     const paramCount = (updatedBlock.properties?.parameterCount as number) || 1;
 
-    // Create new parameter input
+    // Create new parameter input, with the same hint as the first one (e.g. name=value)
+    const firstParam = updatedBlock.inputs.find((input: BlockInput) => input.id === 'param_0');
     const newParam: BlockInput = {
       id: `param_${paramCount}`,
-      type: ['value'],
+      type: ['string', 'uint256'],
       label: `Parameter ${paramCount + 1}`,
-      inputType: 'text'
+      inputType: 'text',
+      ...(firstParam?.placeholder ? { placeholder: firstParam.placeholder } : {})
     };
 
     // Find the index of the last parameter input
@@ -323,7 +596,7 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
       className={`
         relative
         ${isDragging ? 'opacity-50' : ''}
-        ${isWorkspaceBlock ? 'cursor-move' : 'cursor-grab'}
+        ${isReadOnly ? 'cursor-default' : isWorkspaceBlock ? 'cursor-move' : 'cursor-grab'}
       `}
       data-block-type={block.type}
     >
@@ -343,20 +616,49 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
             `} />
             <span className="text-sm text-white/70">{block.label}</span>
           </div>
+          {readsUserAddress && (
+            <OptionSelect
+              value={block.properties?.userAddressParam || USER_ADDRESS_PARAM_DEFAULT}
+              options={USER_ADDRESS_PARAM_OPTIONS}
+              onChange={handleUserAddressParamChange}
+              disabled={isReadOnly}
+              className="w-32"
+              title="Where the user's address comes from when decrypting"
+            />
+          )}
         </div>
 
         {block.inputs && block.inputs.length > 0 && (
           <div className="mt-3 space-y-3 pt-2 border-t border-white/5">
             {block.inputs.map((input: BlockInput, index) => {
-              if (input.type?.includes('operator') || input.type?.includes('condition')) {
+              if (isConditionSocket(input.type)) {
                 return (
                   <div key={input.id} className={`
                     ${index !== 0 ? 'pt-3 border-t border-white/5' : ''}
                   `}>
+                    {block.properties?.conditionType === 'sequential' && input.connected && (
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="text-xs text-white/40">Step {index + 1} result as :</span>
+                        <input
+                          type="text"
+                          value={input.varName || ''}
+                          onChange={(e) => handleStepNameChange(input.id, e.target.value)}
+                          readOnly={isReadOnly || !isWorkspaceBlock}
+                          autoComplete="off"
+                          data-form-type="other"
+                          className="flex-1 px-2 py-1 text-xs font-mono bg-black/30 border border-white/5 rounded
+                            focus:outline-none focus:border-white/20 placeholder-white/20"
+                          placeholder={`step${index + 1}`}
+                        />
+                      </div>
+                    )}
                     <DropTarget
                       inputId={input.id}
                       isWorkspaceBlock={isWorkspaceBlock}
                       onDrop={handleDrop}
+                      accepts={input.type}
+                      label={input.label}
+                      onReject={onDropRejected}
                       className="border rounded-lg transition-all duration-200"
                     >
                       {input.connected ? (
@@ -364,12 +666,14 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
                           <DraggableBlock
                             block={input.connected}
                             isWorkspaceBlock={isWorkspaceBlock}
-                            onBlockUpdate={(updatedBlock) => {
+                            isReadOnly={isReadOnly}
+                            onDropRejected={onDropRejected}
+                            onBlockUpdate={(updatedBlock, options) => {
                               const newBlock = JSON.parse(JSON.stringify(block));
                               const targetInput = newBlock.inputs?.find((i: BlockInput) => i.id === input.id);
                               if (targetInput) {
                                 targetInput.connected = updatedBlock;
-                                onBlockUpdate?.(newBlock);
+                                onBlockUpdate?.(newBlock, options);
                               }
                             }}
                           />
@@ -385,7 +689,7 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
                           )}
                         </div>
                       ) : (
-                        <div className="p-2.5 text-sm text-white/30">{input.label}</div>
+                        <div className="p-2.5 text-sm text-white/30">{input.placeholder || input.label}</div>
                       )}
                     </DropTarget>
                   </div>
@@ -396,7 +700,21 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
               if (block.type === 'condition') {
                 // Check if this is a numeric input that should have a comparator
                 const needsComparator = 
-                  (input.id === 'minBalance' || input.id === 'minTimestamp' || input.id === 'tokenAmount' || input.id === 'tokenId' || input.id === 'expectedValue');
+                  (input.id === 'minBalance' || input.id === 'minTimestamp' || input.id === 'tokenAmount' || input.id === 'expectedValue');
+                // Amounts entered in a unit show their exact base-unit value
+                const conversion = convertAmountInput(block, input);
+                // Arguments of a function with a known ABI are edited by type and show their own errors
+                const argumentParameter = isArgumentInput(input)
+                  ? argumentParameters[Number(input.id.slice('arg_'.length))]
+                  : undefined;
+                let valueError = argumentParameter ? '' : contractErrors[input.id] || '';
+                if (input.valueType && input.value?.trim()) {
+                  try {
+                    parseReturnValue(input.value, input.valueType);
+                  } catch (err) {
+                    valueError = err instanceof Error ? err.message : String(err);
+                  }
+                }
                 
                 return (
                   <div key={input.id} className={`
@@ -404,32 +722,128 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
                   `}>
                     <div className="flex flex-col gap-1.5">
                       <span className="text-xs text-white/50">{input.label}</span>
-                      
-                      {needsComparator ? (
+
+                      {input.id === 'expectedValue' && functionOutputs.length > 1 && (
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-white/40">Output</span>
+                          <OptionSelect
+                            value={String(input.outputIndex ?? 0)}
+                            options={functionOutputs.map((output, outputIndex) => ({
+                              value: String(outputIndex),
+                              label: `${outputIndex}: ${describeOutput(output, outputIndex)}`
+                            }))}
+                            onChange={(value: string) => handleOutputIndexChange(input.id, Number(value))}
+                            className="flex-1"
+                            disabled={isReadOnly}
+                            title="Function output to compare"
+                          />
+                        </div>
+                      )}
+
+                      {argumentParameter ? (
+                        <DropTarget
+                          inputId={input.id}
+                          isWorkspaceBlock={isWorkspaceBlock}
+                          onDrop={handleDrop}
+                          accepts={input.type}
+                          label={input.label}
+                          onReject={onDropRejected}
+                        >
+                          <AbiParameterEditor
+                            parameter={argumentParameter}
+                            value={input.value || ''}
+                            onChange={(value: unknown) => handleArgumentChange(input.id, value)}
+                            contextVariables={contextVariables}
+                            disabled={isReadOnly || !isWorkspaceBlock}
+                          />
+                        </DropTarget>
+                      ) : isTimeWindowInput(input) ? (
+                        <DropTarget
+                          inputId={input.id}
+                          isWorkspaceBlock={isWorkspaceBlock}
+                          onDrop={handleDrop}
+                          accepts={input.type}
+                          label={input.label}
+                          onReject={onDropRejected}
+                        >
+                          <TimeExpressionInput
+                            value={input.value || ''}
+                            timeZone={timeZone}
+                            onChange={(value: string) => handleInputValueChange(input.id, value)}
+                            countdown={input.id === 'opensAt'
+                              ? { future: 'Opens', past: 'Opened' }
+                              : { future: 'Closes', past: 'Closed' }}
+                            placeholder={input.placeholder}
+                            disabled={isReadOnly || !isWorkspaceBlock}
+                          />
+                        </DropTarget>
+                      ) : input.id === 'timeZone' ? (
+                        <OptionSelect
+                          value={timeZone}
+                          options={Array.from(new Set([timeZone, ...timeZones])).map(zone => ({ value: zone, label: zone }))}
+                          onChange={(zone: string) => handleTimeZoneChange(input.id, zone)}
+                          className="w-full"
+                          disabled={isReadOnly || !isWorkspaceBlock}
+                          title="Time zone the dates are picked in"
+                        />
+                      ) : input.id === 'addresses' ? (
+                        <AddressListEditor
+                          value={input.value || ''}
+                          onChange={(value: string) => handleInputValueChange(input.id, value)}
+                          onUseContract={handleUseAllowlistContract}
+                          disabled={isReadOnly || !isWorkspaceBlock}
+                        />
+                      ) : needsComparator ? (
                         <div className="flex items-center gap-2">
                           <ComparatorSelect
                             value={input.comparator || '>='}
                             onChange={(value: string) => handleComparatorChange(input.id, value)}
                             className="w-16"
+                            disabled={isReadOnly}
+                            comparators={input.valueType ? getComparatorsForType(input.valueType) : undefined}
                           />
                           <DropTarget
                             inputId={input.id}
                             isWorkspaceBlock={isWorkspaceBlock}
                             onDrop={handleDrop}
-                            acceptValueBlocks={true}
+                            accepts={input.type}
+                            label={input.label}
+                            onReject={onDropRejected}
                             className="flex-1"
                           >
                             <input
                               type={input.inputType || 'text'}
                               value={input.value || ''}
                               onChange={(e) => handleValueChange(input.id, e)}
+                              readOnly={isReadOnly || input.readOnly}
                               autoComplete="off"
                               data-form-type="other"
                               className="w-full px-2 py-1.5 text-sm bg-black/30 border border-white/5 rounded 
                                 focus:outline-none focus:border-white/20 placeholder-white/20"
-                              placeholder={`Enter ${input.label.toLowerCase()}`}
+                              placeholder={input.placeholder || `Enter ${input.label.toLowerCase()}`}
+                              list={input.inputType === 'number' ? undefined : CONTEXT_VARIABLE_LIST_ID}
                             />
                           </DropTarget>
+                          {input.units && input.units.length > 0 && (
+                            <OptionSelect
+                              value={input.unit || input.units[0]}
+                              options={input.units.map(unit => ({ value: unit, label: UNIT_LABELS[unit] }))}
+                              onChange={(unit: string) => handleUnitChange(input.id, unit as AmountUnit)}
+                              className="w-24"
+                              disabled={isReadOnly}
+                              title="Unit"
+                            />
+                          )}
+                          {input.valueType && (
+                            <OptionSelect
+                              value={input.valueType}
+                              options={RETURN_VALUE_TYPES.map(type => ({ value: type, label: RETURN_VALUE_TYPE_LABELS[type] }))}
+                              onChange={(type: string) => handleValueTypeChange(input.id, type as ReturnValueType)}
+                              className="w-28"
+                              disabled={isReadOnly}
+                              title="Value type"
+                            />
+                          )}
                         </div>
                       ) : (
                         <div className="flex items-center gap-2">
@@ -437,21 +851,25 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
                             inputId={input.id}
                             isWorkspaceBlock={isWorkspaceBlock}
                             onDrop={handleDrop}
-                            acceptValueBlocks={true}
+                            accepts={input.type}
+                            label={input.label}
+                            onReject={onDropRejected}
                             className="flex-1"
                           >
                             <input
                               type={input.inputType || 'text'}
                               value={input.value || ''}
                               onChange={(e) => handleValueChange(input.id, e)}
+                              readOnly={isReadOnly || input.readOnly}
                               autoComplete="off"
                               data-form-type="other"
                               className="w-full px-2 py-1.5 text-sm bg-black/30 border border-white/5 rounded
                                 focus:outline-none focus:border-white/20 placeholder-white/20"
-                              placeholder={`Enter ${input.label.toLowerCase()}`}
+                              placeholder={input.placeholder || `Enter ${input.label.toLowerCase()}`}
+                              list={input.inputType === 'number' ? undefined : CONTEXT_VARIABLE_LIST_ID}
                             />
                           </DropTarget>
-                          {block.properties?.canAddParameters && input.id.startsWith('param_') &&
+                          {!isReadOnly && block.properties?.canAddParameters && input.id.startsWith('param_') &&
                            parseInt(input.id.split('_')[1]) === ((block.properties?.parameterCount ?? 1) - 1) && (
                             <button
                               onClick={handleAddParameter}
@@ -465,6 +883,26 @@ const DraggableBlock: React.FC<DraggableBlockProps> = ({
                           )}
                         </div>
                       )}
+
+                      {valueError && (
+                        <span className="text-xs text-red-400">{valueError}</span>
+                      )}
+                      {conversion && (conversion.error ? (
+                        <span className="text-xs text-red-400">{conversion.error}</span>
+                      ) : conversion.unit !== 'wei' && conversion.unit !== 'base' && (
+                        <span className="text-xs text-white/40 font-mono break-all">
+                          = {conversion.baseUnits} {conversion.baseUnit}
+                        </span>
+                      ))}
+                      {input.id === 'abi' && isWorkspaceBlock && (
+                        <ContractAbiPicker
+                          chain={parseChainId(block.inputs?.find(i => i.id === 'chain')?.value || '')}
+                          contractAddress={block.inputs?.find(i => i.id === 'contractAddress')?.value || ''}
+                          selectedSignature={selectedSignature}
+                          onSelect={handleFunctionSelect}
+                          disabled={isReadOnly}
+                        />
+                      )}
                     </div>
                   </div>
                 );
@@ -1,6 +1,8 @@
 import React, { useCallback } from 'react';
 import { useDrop } from 'react-dnd';
 import { DragItem } from './types';
+import { BlockInput } from './BlockTypes';
+import { canConnect, getDropRejection } from './blockRegistry';
 
 interface DropTargetProps {
   inputId: string;
@@ -9,7 +11,11 @@ interface DropTargetProps {
   onDrop: (inputId: string, item: DragItem, parentInputId?: string) => DropResult | void;
   children: React.ReactNode;
   className?: string;
-  acceptValueBlocks?: boolean;
+  // Value kinds this socket accepts, as declared by the input's type
+  accepts: BlockInput['type'];
+  // Socket name used when explaining a rejected drop
+  label: string;
+  onReject?: (message: string) => void;
 }
 
 interface DropResult {
@@ -23,42 +29,32 @@ export const DropTarget: React.FC<DropTargetProps> = ({
   onDrop,
   children,
   className = '',
-  acceptValueBlocks = false,
+  accepts,
+  label,
+  onReject,
 }) => {
   const [{ isOver, canDrop }, dropRef] = useDrop<DragItem, DropResult, { isOver: boolean; canDrop: boolean }>(() => ({
     accept: 'block',
     hover(item: DragItem, monitor) {
+      if (!monitor.isOver({ shallow: true })) return;
+
       // When hovering over a valid drop target, prevent propagation
-      if (monitor.isOver({ shallow: true }) && monitor.canDrop()) {
+      if (monitor.canDrop()) {
         monitor.getItem();  // This is needed to ensure hover state is tracked
+        return;
+      }
+
+      // Explain why this socket does not take the dragged block
+      if (isWorkspaceBlock) {
+        const rejection = getDropRejection(accepts, item, label);
+        if (rejection) onReject?.(rejection);
       }
     },
     canDrop: (item: DragItem) => {
       if (!isWorkspaceBlock) return false;
-      
-      // For value inputs (chain, contractAddress, etc), accept value blocks
-      if (acceptValueBlocks || 
-          inputId.includes('chain') || 
-          inputId.includes('contractAddress') || 
-          inputId.includes('timestamp') || 
-          inputId.includes('balance') || 
-          inputId.includes('tokenId') ||
-          inputId.includes('minBalance') ||
-          inputId.includes('minTimestamp') ||
-          inputId.includes('tokenAmount') ||
-          inputId.includes('method') ||
-          inputId.includes('parameters') ||
-          inputId.includes('abi')) {
-        return item.type === 'value';
-      }
-      
-      // For operator inputs (condition-1, condition-2, etc), accept conditions and operators
-      if (inputId.startsWith('condition-')) {
-        return item.type === 'condition' || item.type === 'operator';
-      }
-      
-      // For other inputs, accept conditions and operators
-      return item.type === 'condition' || item.type === 'operator';
+
+      // The input declares which kinds of values its socket accepts
+      return canConnect(accepts, item);
     },
     drop: (item: DragItem, monitor) => {
       // Only handle the drop if this is the immediate target
@@ -79,7 +75,7 @@ export const DropTarget: React.FC<DropTargetProps> = ({
       isOver: monitor.isOver({ shallow: true }),
       canDrop: monitor.canDrop(),
     }),
-  }), [inputId, parentInputId, isWorkspaceBlock, onDrop, acceptValueBlocks]);
+  }), [inputId, parentInputId, isWorkspaceBlock, onDrop, accepts, label, onReject]);
 
   const setRef = useCallback((element: HTMLDivElement | null) => {
     dropRef(element);
@@ -93,7 +89,8 @@ export const DropTarget: React.FC<DropTargetProps> = ({
       className={`
         ${className}
         ${isOver && canDrop ? 'border-white/20 bg-white/10 scale-[1.02]' : ''}
-        ${!canDrop ? 'border-white/5 bg-white/5' : ''}
+        ${isOver && !canDrop && isWorkspaceBlock ? 'border-red-500/40 bg-red-500/5' : ''}
+        ${!isOver && !canDrop ? 'border-white/5 bg-white/5' : ''}
         ${canDrop && !isOver ? 'border-white/10 border-dashed' : ''}
       `}
     >
@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Block } from './BlockTypes';
+import { jsonToBlocks, parseConditionJson } from './blockUtils';
+
+interface ImportJsonDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (blocks: Block[], unmapped: string[]) => void;
+}
+
+const ImportJsonDialog: React.FC<ImportJsonDialogProps> = ({ isOpen, onClose, onImport }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setText('');
+    setError('');
+    onClose();
+  };
+
+  const handleImport = () => {
+    try {
+      const condition = parseConditionJson(text);
+      const { blocks, unmapped } = jsonToBlocks(condition);
+
+      if (!blocks.length) {
+        setError(`Nothing could be imported:\n${unmapped.join('\n')}`);
+        return;
+      }
+
+      onImport(blocks, unmapped);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import condition');
+    }
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
+        onClick={handleClose}
+      />
+
+      <div className="fixed inset-0 flex items-center justify-center z-50 pointer-events-none">
+        <div className="w-full max-w-2xl bg-black border border-white/10 rounded-lg p-6 space-y-4 pointer-events-auto">
+          <div className="flex items-center justify-between border-b border-white/10 pb-3">
+            <h3 className="text-sm font-diatype font-bold text-white tracking-wide uppercase">Import Condition JSON</h3>
+            <button
+              onClick={handleClose}
+              className="text-white/60 hover:text-white/80 transition-colors"
+            >
+              <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <p className="text-sm text-white/60">
+            Paste a condition or a serialized condition expression. It will replace the current workspace.
+          </p>
+
+          <textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setError('');
+            }}
+            placeholder='{ "conditionType": "time", ... }'
+            autoComplete="off"
+            data-form-type="other"
+            className="w-full h-64 px-3 py-2 bg-white/5 text-white border border-white/10 rounded-lg
+              placeholder-white/30 font-mono text-sm
+              focus:outline-none focus:ring-1 focus:ring-white/20 focus:border-white/20
+              transition-all duration-200"
+          />
+
+          {error && (
+            <pre className="p-3 bg-red-500/5 border border-red-500/20 rounded-lg text-red-400 text-sm font-mono whitespace-pre-wrap break-all">
+              {error}
+            </pre>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={handleClose}
+              className="px-3 py-1.5 bg-white/5 text-white/80 rounded-lg text-sm
+                border border-white/10 transition-all duration-200
+                hover:bg-white/10 hover:border-white/20
+                focus:outline-none focus:ring-1 focus:ring-white/20"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!text.trim()}
+              className="px-3 py-1.5 bg-white/5 text-white rounded-lg text-sm font-diatype font-bold
+                border border-white/10 transition-all duration-200
+                hover:bg-white/10 hover:border-white/20
+                focus:outline-none focus:ring-1 focus:ring-white/20
+                disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ImportJsonDialog;
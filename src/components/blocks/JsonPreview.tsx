@@ -4,13 +4,18 @@ import React, { useState } from 'react';
 import { TacoCondition } from '../../types/taco';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { atomDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { isNumericString } from './blockUtils';
+import { generateConditionCode } from './blockRegistry';
+import { Block } from './BlockTypes';
+import { collectAmountConversions } from './blockUtils';
+import { UNIT_LABELS } from '../../utils/units';
 
 interface JsonPreviewProps {
   condition: TacoCondition | null;
+  // Workspace blocks, used to show amounts in the units they were entered in
+  blocks?: Block[];
 }
 
-const JsonPreview: React.FC<JsonPreviewProps> = ({ condition }) => {
+const JsonPreview: React.FC<JsonPreviewProps> = ({ condition, blocks = [] }) => {
   const [copySuccess, setCopySuccess] = useState(false);
   const [viewMode, setViewMode] = useState<'json' | 'typescript'>('json');
 
@@ -20,230 +25,24 @@ const JsonPreview: React.FC<JsonPreviewProps> = ({ condition }) => {
   // Format the TypeScript for display with just the condition creation
   const formatTypeScript = (condition: TacoCondition | null): string => {
     if (!condition) return '';
-    
-    // Helper function to safely access properties that might not exist
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const getProperty = (obj: any, prop: string): any => {
-      return obj && typeof obj === 'object' && prop in obj ? obj[prop] : undefined;
-    };
-    
-    // Recursive function to format a condition and its nested operands
-    const formatCondition = (condition: TacoCondition, varName: string = 'condition'): string[] => {
-      const lines: string[] = [];
-      
-      // Check for predefined conditions first
-      if (getProperty(condition, 'standardContractType') === 'ERC721' && getProperty(condition, 'method') === 'ownerOf') {
-        // This is an ERC721 ownership condition
-        lines.push(`const ${varName} = new conditions.predefined.erc721.ERC721Ownership({`);
-        lines.push(`  contractAddress: '${getProperty(condition, 'contractAddress') || '0x0000000000000000000000000000000000000000'}',`);
-        
-        // Extract token ID from parameters if available
-        const parameters = getProperty(condition, 'parameters');
-        if (parameters && Array.isArray(parameters) && parameters.length > 0) {
-          lines.push(`  parameters: [${parameters[0]}],`);
-        }
-        
-        lines.push(`  chain: ${getProperty(condition, 'chain') || 11155111},  // ${getChainName(getProperty(condition, 'chain') || 11155111)}`);
-        lines.push('});');
-      }
-      // Check for other predefined conditions here
-      else if (getProperty(condition, 'standardContractType') === 'ERC20' && getProperty(condition, 'method') === 'balanceOf') {
-        // This is an ERC20 balance condition
-        lines.push(`const ${varName} = new conditions.predefined.erc20.ERC20Balance({`);
-        lines.push(`  contractAddress: '${getProperty(condition, 'contractAddress') || '0x0000000000000000000000000000000000000000'}',`);
-        
-        const returnValueTest = getProperty(condition, 'returnValueTest');
-        if (returnValueTest && 'value' in returnValueTest) {
-          lines.push(`  returnValueTest: { comparator: "${returnValueTest.comparator || '>='}", value: ${returnValueTest.value} },`);
-        }
-        
-        lines.push(`  chain: ${getProperty(condition, 'chain') || 11155111},  // ${getChainName(getProperty(condition, 'chain') || 11155111)}`);
-        lines.push('});');
-      }
-      // Base condition types
-      else if (condition.conditionType === 'time') {
-        lines.push(`const ${varName} = new conditions.base.time.TimeCondition({`);
-        lines.push(`  chain: ${getProperty(condition, 'chain') || 11155111},  // ${getChainName(getProperty(condition, 'chain') || 11155111)}`);
-        
-        const returnValueTest = getProperty(condition, 'returnValueTest');
-        if (returnValueTest && 'value' in returnValueTest) {
-          lines.push(`  returnValueTest: { comparator: "${returnValueTest.comparator || '>='}", value: ${returnValueTest.value} },`);
-        }
-        lines.push('});');
-      } 
-      else if (condition.conditionType === 'rpc') {
-        lines.push(`const ${varName} = new conditions.base.rpc.RpcCondition({`);
-        lines.push(`  chain: ${getProperty(condition, 'chain') || 11155111},  // ${getChainName(getProperty(condition, 'chain') || 11155111)}`);
-        lines.push(`  method: "${getProperty(condition, 'method')}",`);
-        
-        const parameters = getProperty(condition, 'parameters');
-        if (parameters) {
-          const paramsStr = JSON.stringify(parameters)
-            .replace(/"([^"]+)":/g, '$1:') // Remove quotes from property names
-            .replace(/"/g, '\''); // Replace double quotes with single quotes for strings
-          lines.push(`  parameters: ${paramsStr},`);
-        }
-        
-        const returnValueTest = getProperty(condition, 'returnValueTest');
-        if (returnValueTest) {
-          const testStr = JSON.stringify(returnValueTest)
-            .replace(/"([^"]+)":/g, '$1:')
-            .replace(/"/g, '\'');
-          lines.push(`  returnValueTest: ${testStr},`);
-        }
-        
-        lines.push('});');
-      }
-      else if (condition.conditionType === 'json-rpc') {
-        lines.push(`const ${varName} = new conditions.base.jsonRpc.JsonRpcCondition({`);
-
-        const endpoint = getProperty(condition, 'endpoint');
-        lines.push(`  endpoint: '${endpoint}',`);
-
-        const method = getProperty(condition, 'method');
-        lines.push(`  method: '${method}',`);
-
-        const params = getProperty(condition, 'params');
-        if (params && params.length > 0) {
-          const paramsStr = JSON.stringify(params)
-            .replace(/"([^"]+)":/g, '$1:')
-            .replace(/"/g, '\'');
-          lines.push(`  params: ${paramsStr},`);
-        }
-
-        const query = getProperty(condition, 'query');
-        if (query) lines.push(`  query: '${query}',`);
 
-        const authorizationToken = getProperty(condition, 'authorizationToken');
-        if (authorizationToken) lines.push(`  authorizationToken: '${authorizationToken}',`);
-
-        const returnValueTest = getProperty(condition, 'returnValueTest');
-        if (returnValueTest && 'value' in returnValueTest) {
-          const formattedValue = isNumericString(returnValueTest.value) ? returnValueTest.value : `'${returnValueTest.value}'`;
-          lines.push(`  returnValueTest: { comparator: "${returnValueTest.comparator || '>='}", value: ${formattedValue} },`);
-        }
-
-        lines.push('});');
-      }
-      else if (condition.conditionType === 'contract') {
-        lines.push(`const ${varName} = new conditions.base.contract.ContractCondition({`);
-        lines.push(`  chain: ${getProperty(condition, 'chain') || 11155111},  // ${getChainName(getProperty(condition, 'chain') || 11155111)}`);
-        
-        const contractAddress = getProperty(condition, 'contractAddress');
-        if (contractAddress) lines.push(`  contractAddress: '${contractAddress}',`);
-        
-        const standardContractType = getProperty(condition, 'standardContractType');
-        if (standardContractType) lines.push(`  standardContractType: '${standardContractType}',`);
-        
-        const functionAbi = getProperty(condition, 'functionAbi');
-        if (functionAbi) {
-          const abiStr = JSON.stringify(functionAbi)
-            .replace(/"([^"]+)":/g, '$1:')
-            .replace(/"/g, '\'');
-          lines.push(`  functionAbi: ${abiStr},`);
-        }
-        
-        const method = getProperty(condition, 'method');
-        if (method) lines.push(`  method: '${method}',`);
-        
-        const parameters = getProperty(condition, 'parameters');
-        if (parameters) {
-          const paramsStr = JSON.stringify(parameters)
-            .replace(/"([^"]+)":/g, '$1:')
-            .replace(/"/g, '\'');
-          lines.push(`  parameters: ${paramsStr},`);
-        }
-        
-        const returnValueTest = getProperty(condition, 'returnValueTest');
-        if (returnValueTest) {
-          const testStr = JSON.stringify(returnValueTest)
-            .replace(/"([^"]+)":/g, '$1:')
-            .replace(/"/g, '\'');
-          lines.push(`  returnValueTest: ${testStr},`);
-        }
-        lines.push('});');
-      }
-      else if (condition.conditionType === 'compound') {
-        const operands = getProperty(condition, 'operands');
-        const operator = getProperty(condition, 'operator');
-        
-        if (operands && Array.isArray(operands) && operands.length > 0) {
-          // Generate code for each operand
-          const operandVars: string[] = [];
-          
-          operands.forEach((operand, index) => {
-            const operandVarName = `operand${index + 1}`;
-            operandVars.push(operandVarName);
-            
-            // Recursively format each operand
-            const operandLines = formatCondition(operand, operandVarName);
-            lines.push(...operandLines);
-            lines.push(''); // Add a blank line between operands
-          });
-          
-          // Now create the compound condition with all operands
-          lines.push(`const ${varName} = new conditions.compound.CompoundCondition({`);
-          lines.push(`  operator: "${operator}",`);
-          lines.push('  operands: [');
-          operandVars.forEach(varName => {
-            lines.push(`    ${varName},`);
-          });
-          lines.push('  ],');
-          lines.push('});');
-        } else {
-          // Empty compound condition
-          lines.push(`const ${varName} = new conditions.compound.CompoundCondition({`);
-          lines.push(`  operator: "${operator}",`);
-          lines.push('  operands: [],');
-          lines.push('});');
-        }
-      }
-      else {
-        // Generic condition for unknown types
-        lines.push('// This condition type may require custom setup');
-        lines.push(`const ${varName} = ${JSON.stringify(condition, null, 2)
-          .replace(/"([^"]+)":/g, '$1:')
-          .replace(/"/g, '\'')};`);
-      }
-      
-      return lines;
-    };
-    
     const lines: string[] = [];
-    
+
     // Add imports
     lines.push('import { conditions } from "@nucypher/taco";');
     lines.push('');
-    
-    // Format the condition
-    lines.push(...formatCondition(condition));
-    
-    return lines.join('\n');
-  };
 
-  // Helper function to get chain name from chain ID
-  const getChainName = (chainId: number): string => {
-    const chains: Record<number, string> = {
-      1: 'ethereum mainnet',
-      5: 'goerli',
-      11155111: 'sepolia',
-      137: 'polygon',
-      80001: 'mumbai',
-      42161: 'arbitrum',
-      421613: 'arbitrum goerli',
-      10: 'optimism',
-      420: 'optimism goerli',
-      56: 'bnb chain',
-      97: 'bnb testnet',
-      43114: 'avalanche',
-      43113: 'fuji'
-    };
-    
-    return chains[chainId] || 'custom network';
+    // Format the condition using the code generators of the registered blocks
+    lines.push(...generateConditionCode(condition));
+
+    return lines.join('\n');
   };
 
   const formattedTypeScript = formatTypeScript(condition);
 
+  // Amounts as entered next to the base units that end up in the condition
+  const amounts = collectAmountConversions(blocks).filter(amount => amount.baseUnits);
+
   const handleCopy = async () => {
     const textToCopy = viewMode === 'json' ? formattedJson : formattedTypeScript;
     if (!textToCopy) return;
@@ -312,6 +111,16 @@ const JsonPreview: React.FC<JsonPreviewProps> = ({ condition }) => {
           </button>
         </div>
       </div>
+      {condition && amounts.length > 0 && (
+        <div className="border-b border-white/10 px-6 py-3 bg-white/[0.02] space-y-1">
+          {amounts.map((amount, index) => (
+            <div key={index} className="text-xs font-mono text-white/60 break-all">
+              <span className="text-white/40">{amount.blockLabel} · {amount.inputLabel}:</span>{' '}
+              {amount.amount} {UNIT_LABELS[amount.unit]} = {amount.baseUnits} {amount.baseUnit}
+            </div>
+          ))}
+        </div>
+      )}
       <div className="flex-1 overflow-auto bg-black/30 relative group">
         {condition ? (
           <>
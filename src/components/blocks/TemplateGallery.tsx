@@ -0,0 +1,264 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Block } from './BlockTypes';
+import {
+  ConditionTemplate,
+  getDefaultParamValues,
+  getTemplates,
+  instantiateTemplate,
+  registerTemplateFile,
+  searchTemplates,
+  validateParamValue
+} from './templateRegistry';
+
+interface TemplateGalleryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onInsert: (blocks: Block[], unmapped: string[]) => void;
+}
+
+const ALL_CATEGORIES = 'All';
+
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ isOpen, onClose, onInsert }) => {
+  const [templates, setTemplates] = useState<ConditionTemplate[]>([]);
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [selected, setSelected] = useState<ConditionTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [status, setStatus] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTemplates(getTemplates());
+    }
+  }, [isOpen]);
+
+  const categories = useMemo(
+    () => [ALL_CATEGORIES, ...Array.from(new Set(templates.map(template => template.category)))],
+    [templates]
+  );
+
+  const visibleTemplates = useMemo(() => {
+    const inCategory = category === ALL_CATEGORIES
+      ? templates
+      : templates.filter(template => template.category === category);
+    return searchTemplates(inCategory, query);
+  }, [templates, category, query]);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setSelected(null);
+    setError('');
+    setStatus('');
+    onClose();
+  };
+
+  const handleSelect = (template: ConditionTemplate) => {
+    setSelected(template);
+    setValues(getDefaultParamValues(template));
+    setError('');
+  };
+
+  const handleInsert = () => {
+    if (!selected) return;
+
+    try {
+      const { blocks, unmapped } = instantiateTemplate(selected, values);
+      if (!blocks.length) {
+        setError(`Template could not be turned into blocks:\n${unmapped.join('\n')}`);
+        return;
+      }
+      onInsert(blocks, unmapped);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to insert template');
+    }
+  };
+
+  const handleRegisterFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be picked again
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const registered = registerTemplateFile(await file.text());
+      setTemplates(getTemplates());
+      setStatus(`Added ${registered.length} ${registered.length === 1 ? 'template' : 'templates'} from ${file.name}`);
+      setError('');
+    } catch (err) {
+      setStatus('');
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    }
+  };
+
+  const paramErrors = selected
+    ? selected.params.map(param => validateParamValue(param, values[param.id] ?? ''))
+    : [];
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
+        onClick={handleClose}
+      />
+
+      <div className="fixed inset-0 flex items-center justify-center z-50 pointer-events-none">
+        <div className="w-full max-w-4xl max-h-[80vh] bg-black border border-white/10 rounded-lg p-6 flex flex-col gap-4 pointer-events-auto">
+          <div className="flex items-center justify-between border-b border-white/10 pb-3">
+            <h3 className="text-sm font-diatype font-bold text-white tracking-wide uppercase">Condition Templates</h3>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-2 py-1 text-xs bg-white/5 text-white/60 rounded
+                  hover:bg-white/10 hover:text-white/80 transition-all duration-200"
+              >
+                Add templates from file
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleRegisterFile}
+                className="hidden"
+              />
+              <button
+                onClick={handleClose}
+                className="text-white/60 hover:text-white/80 transition-colors"
+              >
+                <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 min-h-0 flex-1">
+            {/* Gallery */}
+            <div className="flex flex-col gap-3 min-h-0">
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search templates"
+                autoComplete="off"
+                data-form-type="other"
+                className="w-full px-3 py-2 bg-white/5 text-white border border-white/10 rounded-lg
+                  placeholder-white/30 text-sm
+                  focus:outline-none focus:ring-1 focus:ring-white/20 focus:border-white/20"
+              />
+              <div className="flex flex-wrap gap-1">
+                {categories.map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => setCategory(name)}
+                    className={`px-2 py-0.5 text-xs rounded-full border transition-all duration-200
+                      ${category === name
+                        ? 'bg-white/10 text-white border-white/20'
+                        : 'bg-white/5 text-white/60 border-white/10 hover:bg-white/10'}`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+              <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+                {visibleTemplates.length === 0 && (
+                  <p className="text-sm text-white/40 text-center py-8">No templates match your search</p>
+                )}
+                {visibleTemplates.map((template) => (
+                  <button
+                    key={template.id}
+                    onClick={() => handleSelect(template)}
+                    className={`w-full text-left p-3 rounded-lg border transition-all duration-200
+                      ${selected?.id === template.id
+                        ? 'bg-white/10 border-white/20'
+                        : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-diatype font-bold text-white">{template.name}</span>
+                      <span className="text-xs text-white/40">
+                        {template.category}{template.source === 'custom' ? ' · custom' : ''}
+                      </span>
+                    </div>
+                    {template.description && (
+                      <p className="text-xs text-white/60 mt-1">{template.description}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Parameters */}
+            <div className="flex flex-col gap-3 min-h-0 overflow-y-auto">
+              {selected ? (
+                <>
+                  <div>
+                    <div className="text-sm font-diatype font-bold text-white">{selected.name}</div>
+                    <p className="text-sm text-white/60">{selected.description}</p>
+                  </div>
+                  {selected.params.map((param, index) => (
+                    <div key={param.id} className="space-y-1">
+                      <label className="block text-sm font-medium text-white/80">{param.label}</label>
+                      <input
+                        type="text"
+                        value={values[param.id] ?? ''}
+                        onChange={(e) => {
+                          setValues(prev => ({ ...prev, [param.id]: e.target.value }));
+                          setError('');
+                        }}
+                        placeholder={param.placeholder}
+                        autoComplete="off"
+                        data-form-type="other"
+                        className={`w-full px-3 py-2 bg-white/5 text-white border rounded-lg
+                          placeholder-white/30 text-sm font-mono
+                          focus:outline-none focus:ring-1 focus:ring-white/20
+                          ${paramErrors[index] ? 'border-red-500/40' : 'border-white/10'}`}
+                      />
+                      {paramErrors[index] ? (
+                        <p className="text-xs text-red-400">{paramErrors[index]}</p>
+                      ) : param.description && (
+                        <p className="text-xs text-white/40">{param.description}</p>
+                      )}
+                    </div>
+                  ))}
+                  <p className="text-xs text-white/40">Inserting a template adds its blocks to the workspace.</p>
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleInsert}
+                      disabled={paramErrors.some(Boolean)}
+                      className="px-3 py-1.5 bg-white/5 text-white rounded-lg text-sm font-diatype font-bold
+                        border border-white/10 transition-all duration-200
+                        hover:bg-white/10 hover:border-white/20
+                        focus:outline-none focus:ring-1 focus:ring-white/20
+                        disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Insert
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <div className="flex items-center justify-center h-full text-white/40 text-sm">
+                  Select a template to fill in its parameters
+                </div>
+              )}
+            </div>
+          </div>
+
+          {status && <p className="text-sm text-white/60">{status}</p>}
+          {error && (
+            <pre className="p-3 bg-red-500/5 border border-red-500/20 rounded-lg text-red-400 text-sm font-mono whitespace-pre-wrap break-all">
+              {error}
+            </pre>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TemplateGallery;
@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { formatDuration, formatZonedDateTime, parseTimeExpression, parseZonedDateTime } from '../../utils/time';
+
+interface TimeExpressionInputProps {
+  // UNIX timestamp in seconds, or empty
+  value: string;
+  timeZone: string;
+  onChange: (value: string) => void;
+  // Wording of the countdown, e.g. "Opens in 2d 4h" / "Opened 3h ago"
+  countdown: { future: string; past: string };
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const inputClassName = `px-2 py-1.5 text-sm bg-black/30 border border-white/5 rounded
+  focus:outline-none focus:border-white/20 placeholder-white/20`;
+
+// Picks a moment with a date/time picker in the given time zone or a typed expression like "now + 7d",
+// and counts down to it
+export const TimeExpressionInput: React.FC<TimeExpressionInputProps> = ({
+  value,
+  timeZone,
+  onChange,
+  countdown,
+  placeholder,
+  disabled = false
+}) => {
+  const [expression, setExpression] = useState('');
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+  const timestamp = /^\d+$/.test(value.trim()) ? Number(value) : null;
+
+  // Tick while there is a moment to count down to
+  useEffect(() => {
+    if (timestamp === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timestamp]);
+
+  let pickerValue = '';
+  try {
+    pickerValue = timestamp !== null ? formatZonedDateTime(timestamp, timeZone) : '';
+  } catch {
+    // Unknown time zones leave the picker empty; the expression field still works with timestamps
+  }
+
+  const applyExpression = () => {
+    if (!expression.trim()) return;
+    try {
+      onChange(String(parseTimeExpression(expression, timeZone)));
+      setExpression('');
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handlePickerChange = (text: string) => {
+    if (!text) {
+      onChange('');
+      return;
+    }
+    try {
+      onChange(String(parseZonedDateTime(text, timeZone)));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const secondsLeft = timestamp !== null ? timestamp - Math.floor(now / 1000) : null;
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex items-center gap-2">
+        <input
+          type="datetime-local"
+          value={pickerValue}
+          onChange={(e) => handlePickerChange(e.target.value)}
+          readOnly={disabled}
+          className={`${inputClassName} flex-1 [color-scheme:dark]`}
+        />
+        {!disabled && (
+          <input
+            type="text"
+            value={expression}
+            onChange={(e) => {
+              setExpression(e.target.value);
+              setError('');
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && applyExpression()}
+            onBlur={applyExpression}
+            autoComplete="off"
+            data-form-type="other"
+            className={`${inputClassName} w-36`}
+            placeholder={placeholder}
+          />
+        )}
+      </div>
+
+      {timestamp !== null && (
+        <span className="text-xs text-white/40 font-mono">
+          {timestamp}
+          {secondsLeft !== null && (secondsLeft > 0
+            ? ` · ${countdown.future} in ${formatDuration(secondsLeft)}`
+            : ` · ${countdown.past} ${formatDuration(secondsLeft)} ago`)}
+        </span>
+      )}
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+};
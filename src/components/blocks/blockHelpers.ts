@@ -0,0 +1,161 @@
+/**
+ * Helpers shared by the block definitions and the block editor. Nothing here reads the block
+ * registry, so the definitions the registry loads can import them
+ */
+
+import { Block, BlockInput, ValueKind } from './BlockTypes';
+import { ChainId, ReturnValueTest } from '../../types/taco';
+import { utils } from 'ethers';
+import { AmountUnit, getUnitDecimals, NATIVE_UNITS, toBaseUnits } from '../../utils/units';
+import { AbiParameter } from '../../utils/abi';
+
+// Helper function to convert an address to EIP-55 checksum format using ethers.js
+export const toChecksumAddress = (address: string): string => {
+  if (!address || typeof address !== 'string') {
+    return address;
+  }
+  
+  try {
+    // Ensure the address has the 0x prefix
+    const addressWith0x = address.startsWith('0x') ? address : `0x${address}`;
+    return utils.getAddress(addressWith0x);
+  } catch (error) {
+    // If the address is invalid, return it as is
+    return address;
+  }
+};
+
+// Helper function to check if a chain ID is valid
+const isValidChainId = (chainId: number): chainId is ChainId => {
+  // Allow any valid number as a chain ID
+  return !isNaN(chainId) && Number.isInteger(chainId) && chainId > 0;
+};
+
+// Helper function to safely convert a string to ChainId
+export const parseChainId = (value: string): ChainId => {
+  // Ensure we're working with a trimmed string
+  const trimmedValue = value.trim();
+  
+  // If the value is empty, return the default
+  if (!trimmedValue) {
+    return 11155111; // Default to Sepolia
+  }
+  
+  const parsed = parseInt(trimmedValue);
+  
+  // Check if the parsed value is a valid chain ID (any positive integer)
+  if (!isNaN(parsed) && Number.isInteger(parsed) && parsed > 0) {
+    // Cast to ChainId type - this is safe since we're allowing any positive integer
+    return parsed as ChainId;
+  }
+  
+  // Default to Sepolia if invalid
+  return 11155111;
+};
+
+// Helper function for checking whether a string is actually numeric
+export function isNumericString(value: string): boolean {
+  return !isNaN(Number(value));
+}
+
+// An amount input together with its exact value in base units
+export interface AmountConversion {
+  blockLabel: string;
+  inputLabel: string;
+  amount: string;
+  unit: AmountUnit;
+  // Name of the base unit, e.g. wei
+  baseUnit: string;
+  baseUnits?: string;
+  error?: string;
+}
+
+// Convert an amount input that declares a unit; returns null for inputs without units or values
+export const convertAmountInput = (block: Block, input: BlockInput): AmountConversion | null => {
+  if (!input.unit || !input.value?.trim()) return null;
+
+  const conversion: AmountConversion = {
+    blockLabel: block.label,
+    inputLabel: input.label,
+    amount: input.value.trim(),
+    unit: input.unit,
+    baseUnit: NATIVE_UNITS.includes(input.unit) ? 'wei' : 'base units'
+  };
+
+  try {
+    // Token units take their decimals from the block's decimals input
+    const decimals = getUnitDecimals(input.unit, block.inputs?.find(i => i.id === 'decimals')?.value);
+    conversion.baseUnits = toBaseUnits(input.value, decimals);
+  } catch (error) {
+    conversion.error = error instanceof Error ? error.message : String(error);
+  }
+  return conversion;
+};
+
+// Function arguments get one input each, with ids arg_0, arg_1, ...
+export const isArgumentInput = (input: BlockInput): boolean => input.id.startsWith('arg_');
+
+// The value kinds a function argument of a Solidity type accepts
+const getArgumentKinds = (type: string): ValueKind[] => {
+  if (type.endsWith(']') || type.startsWith('tuple')) return ['json'];
+  if (type.startsWith('address')) return ['address'];
+  if (/^u?int\d*$/.test(type)) return ['uint256', 'timestamp'];
+  return ['string'];
+};
+
+// Replace the free-form parameters input (or the previous function's arguments) with one input per argument
+export const setFunctionArguments = (block: Block, abiInputs: AbiParameter[], values: unknown[] = []) => {
+  const argumentInputs: BlockInput[] = abiInputs.map((abiInput, index) => ({
+    id: `arg_${index}`,
+    type: getArgumentKinds(abiInput.type),
+    label: `${abiInput.name || `Argument ${index + 1}`} (${abiInput.type})`,
+    inputType: 'text',
+    value: values[index] === undefined ? '' : typeof values[index] === 'string' ? values[index] as string : JSON.stringify(values[index])
+  }));
+
+  const inputs = block.inputs || [];
+  const position = inputs.findIndex(input => input.id === 'parameters' || isArgumentInput(input));
+  const otherInputs = inputs.filter(input => input.id !== 'parameters' && !isArgumentInput(input));
+  const insertAt = position === -1 ? otherInputs.length : position;
+  block.inputs = [...otherInputs.slice(0, insertAt), ...argumentInputs, ...otherInputs.slice(insertAt)];
+};
+
+type ConditionRecord = Record<string, unknown>;
+
+export const setInputValue = (block: Block, inputId: string, value: string, comparator?: string) => {
+  const input = block.inputs?.find(input => input.id === inputId);
+  if (!input) return;
+
+  input.value = value;
+  if (comparator) {
+    input.comparator = comparator;
+  }
+};
+
+// Whether a returnValueTest value can be typed into a numeric block input
+export const isNumericValue = (value: unknown): value is string | number =>
+  (typeof value === 'number' && Number.isFinite(value)) ||
+  (typeof value === 'string' && value.trim() !== '' && isNumericString(value));
+
+export const asRecord = (value: unknown): ConditionRecord | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as ConditionRecord : null;
+
+export const decompileReturnValueTest = (
+  condition: ConditionRecord,
+  path: string,
+  reportUnmapped: (message: string) => void,
+  // Blocks that let the user pick a function output map the index themselves
+  supportsIndex = false
+): ReturnValueTest | null => {
+  const returnValueTest = asRecord(condition.returnValueTest);
+  if (!returnValueTest) {
+    reportUnmapped(`${path}.returnValueTest: missing or not an object`);
+    return null;
+  }
+
+  if (returnValueTest.index !== undefined && !supportsIndex) {
+    reportUnmapped(`${path}.returnValueTest.index: output index selection is not supported by this block`);
+  }
+
+  return returnValueTest as unknown as ReturnValueTest;
+};
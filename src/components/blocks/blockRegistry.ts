@@ -0,0 +1,326 @@
+import { conditions } from '@nucypher/taco';
+import { USER_ADDRESS_PARAM_DEFAULT, USER_ADDRESS_PARAM_EXTERNAL_EIP4361 } from '@nucypher/taco-auth';
+import { Block, BlockInput, BlockProperties, ValueKind } from './BlockTypes';
+import { DragItem } from './types';
+import { TacoCondition } from '../../types/taco';
+import { CORE_BLOCK_DEFINITIONS } from './BlockDefinitions';
+
+export interface CompileContext {
+  // Compile a nested block (e.g. an operator's operand)
+  compile: (block: Block) => TacoCondition | null;
+}
+
+export interface DecompileContext {
+  // Create a fresh workspace block from a registered definition
+  createBlock: (definitionId: string) => Block;
+  // Decompile a nested condition (e.g. a compound operand)
+  decompile: (condition: unknown, path: string) => Block | null;
+  // Record a part of the condition that cannot be represented as blocks
+  reportUnmapped: (message: string) => void;
+}
+
+export interface ValidationContext {
+  // Validate a nested condition, returning an error message or null
+  validate: (condition: TacoCondition) => string | null;
+}
+
+export interface CodegenContext {
+  // Generate the code for a nested condition assigned to varName
+  generate: (condition: TacoCondition, varName: string) => string[];
+}
+
+// Everything the playground needs to know about one kind of block
+export interface BlockDefinition {
+  id: string;
+  type: Block['type'];
+  category: string;
+  label: string;
+  inputs?: BlockInput[];
+  properties?: BlockProperties;
+  value?: string;
+  // The kind of value a value block provides
+  kind?: ValueKind;
+  // Whether the block is offered in the sidebar palette
+  hidden?: boolean;
+
+  // Recognizes workspace blocks saved before blocks recorded their definition
+  matchesBlock?: (block: Block) => boolean;
+  // Recognizes the conditions this definition decompiles, validates and generates code for
+  matchesCondition?: (condition: Record<string, unknown>) => boolean;
+
+  compile?: (block: Block, context: CompileContext) => TacoCondition | null;
+  decompile?: (condition: Record<string, unknown>, path: string, context: DecompileContext) => Block | null;
+  // Throw with a user-facing message when the condition is not acceptable
+  validate?: (condition: TacoCondition, context: ValidationContext) => void;
+  // Build the @nucypher/taco condition object used for encryption
+  toTacoCondition?: (condition: TacoCondition) => conditions.condition.Condition;
+  codegen?: (condition: TacoCondition, varName: string, context: CodegenContext) => string[];
+}
+
+// Later registrations take precedence, so in-house definitions can override the core ones
+const definitions: BlockDefinition[] = [...CORE_BLOCK_DEFINITIONS];
+let blockCounter = 0;
+
+const getDefinitions = (): BlockDefinition[] => definitions;
+
+// Register a block definition; a definition with the same id replaces the existing one
+export const registerBlockDefinition = (definition: BlockDefinition): void => {
+  const registered = getDefinitions();
+  const existingIndex = registered.findIndex(d => d.id === definition.id);
+  if (existingIndex !== -1) {
+    registered.splice(existingIndex, 1);
+  }
+  registered.push(definition);
+};
+
+export const getBlockDefinition = (definitionId: string): BlockDefinition | undefined =>
+  getDefinitions().find(definition => definition.id === definitionId);
+
+// Template blocks for the sidebar palette, in registration order
+export const getPaletteBlocks = (): Block[] =>
+  getDefinitions()
+    .filter(definition => !definition.hidden)
+    .map(definition => ({
+      id: definition.id,
+      definitionId: definition.id,
+      type: definition.type,
+      category: definition.category,
+      label: definition.label,
+      inputs: definition.inputs,
+      properties: definition.properties,
+      value: definition.value,
+      kind: definition.kind
+    }));
+
+// Create a fresh workspace block from a registered definition
+export const createBlock = (definitionId: string): Block => {
+  const definition = getBlockDefinition(definitionId);
+  if (!definition) {
+    throw new Error(`Unknown block definition: ${definitionId}`);
+  }
+
+  const block: Block = JSON.parse(JSON.stringify({
+    id: `${definitionId}-${Date.now()}-${blockCounter++}`,
+    definitionId,
+    type: definition.type,
+    category: definition.category,
+    label: definition.label,
+    inputs: definition.inputs,
+    properties: definition.properties,
+    value: definition.value,
+    kind: definition.kind,
+    isTemplate: false
+  }));
+
+  // Initialize input values the same way a palette drop does
+  if (block.inputs) {
+    block.inputs = block.inputs.map(input => ({
+      ...input,
+      value: input.value || '',
+      inputType: input.inputType || 'text'
+    }));
+  }
+
+  return block;
+};
+
+const findLast = <T>(items: T[], predicate: (item: T) => boolean): T | undefined => {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return items[i];
+  }
+  return undefined;
+};
+
+export const getDefinitionForBlock = (block: Block): BlockDefinition | undefined => {
+  if (block.definitionId) {
+    const definition = getBlockDefinition(block.definitionId);
+    if (definition) return definition;
+  }
+  return findLast(getDefinitions(), definition => definition.matchesBlock?.(block) ?? false);
+};
+
+// Replace a context variable wherever it appears in a condition, including inside longer strings
+const replaceContextVariable = <T>(value: T, from: string, to: string): T => {
+  const pattern = new RegExp(`${from}(?![a-zA-Z0-9_])`, 'g');
+  const visit = (part: unknown): unknown => {
+    if (typeof part === 'string') return part.replace(pattern, to);
+    if (Array.isArray(part)) return part.map(visit);
+    if (part && typeof part === 'object') {
+      return Object.fromEntries(Object.entries(part).map(([key, nested]) => [key, visit(nested)]));
+    }
+    return part;
+  };
+  return visit(value) as T;
+};
+
+// Conditions can read the user's address from an externally signed SIWE message instead of the
+// wallet's own sign-in. Definitions are written for :userAddress only, so they are matched and
+// validated with the external variable swapped back
+const withDefaultUserAddress = <T>(condition: T): T =>
+  replaceContextVariable(condition, USER_ADDRESS_PARAM_EXTERNAL_EIP4361, USER_ADDRESS_PARAM_DEFAULT);
+
+const readsExternalUserAddress = (condition: unknown): boolean =>
+  JSON.stringify(condition).includes(USER_ADDRESS_PARAM_EXTERNAL_EIP4361);
+
+export const getDefinitionForCondition = (condition: unknown): BlockDefinition | undefined => {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) return undefined;
+  const matched = withDefaultUserAddress(condition as Record<string, unknown>);
+  return findLast(getDefinitions(), definition => definition.matchesCondition?.(matched) ?? false);
+};
+
+const VALUE_KIND_LABELS: Record<ValueKind, string> = {
+  chainId: 'a chain ID',
+  address: 'an address',
+  uint256: 'a uint256 number',
+  timestamp: 'a timestamp',
+  string: 'a string',
+  json: 'JSON',
+  condition: 'a condition'
+};
+
+// The value kinds that can be plugged into a socket of each kind
+const COMPATIBLE_KINDS: Record<ValueKind, ValueKind[]> = {
+  chainId: ['chainId'],
+  address: ['address'],
+  uint256: ['uint256', 'timestamp'],
+  timestamp: ['timestamp', 'uint256'],
+  string: ['string', 'address'],
+  json: ['json'],
+  condition: ['condition']
+};
+
+const ALL_VALUE_KINDS = (Object.keys(COMPATIBLE_KINDS) as ValueKind[]).filter(kind => kind !== 'condition');
+
+// Normalize a socket's declared types; workspaces saved before typed sockets used 'value' and 'operator'
+export const getSocketKinds = (socketTypes: BlockInput['type'] | string | string[]): ValueKind[] => {
+  const declared: string[] = Array.isArray(socketTypes) ? socketTypes : [socketTypes];
+  const kinds = declared.flatMap(type => {
+    if (type === 'value') return ALL_VALUE_KINDS;
+    if (type === 'operator') return ['condition' as const];
+    return type in COMPATIBLE_KINDS ? [type as ValueKind] : [];
+  });
+  return Array.from(new Set(kinds));
+};
+
+export const isConditionSocket = (socketTypes: BlockInput['type']): boolean =>
+  getSocketKinds(socketTypes).includes('condition');
+
+// The kind of value a dragged block provides; untyped value blocks return undefined
+const getItemKind = (item: Pick<DragItem, 'type' | 'kind'>): ValueKind | undefined =>
+  item.type === 'condition' || item.type === 'operator' ? 'condition' : item.kind;
+
+const describeKinds = (kinds: ValueKind[]): string => {
+  const labels = kinds.map(kind => VALUE_KIND_LABELS[kind]);
+  return labels.length > 1
+    ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}`
+    : labels[0] ?? 'nothing';
+};
+
+// Explain why a socket rejects the dragged block, or return null when the drop is allowed
+export const getDropRejection = (
+  socketTypes: BlockInput['type'],
+  item: Pick<DragItem, 'type' | 'kind' | 'label'>,
+  socketLabel: string
+): string | null => {
+  const accepted = getSocketKinds(socketTypes);
+  const itemKind = getItemKind(item);
+
+  // Value blocks without a kind fit any value socket
+  if (!itemKind) {
+    return accepted.some(kind => kind !== 'condition')
+      ? null
+      : `${socketLabel} accepts ${describeKinds(accepted)}, not a value`;
+  }
+
+  if (accepted.some(kind => COMPATIBLE_KINDS[kind].includes(itemKind))) {
+    return null;
+  }
+  return `${item.label} is ${VALUE_KIND_LABELS[itemKind]}, but ${socketLabel} accepts ${describeKinds(accepted)}`;
+};
+
+// Whether an input declaring the given socket types accepts the dragged block
+export const canConnect = (
+  socketTypes: BlockInput['type'],
+  item: Pick<DragItem, 'type' | 'kind' | 'label'>
+): boolean => getDropRejection(socketTypes, item, '') === null;
+
+export const compileBlock = (block: Block): TacoCondition | null => {
+  const definition = getDefinitionForBlock(block);
+  if (!definition?.compile) return null;
+  const condition = definition.compile(block, { compile: compileBlock });
+
+  // Operators leave the binding to their operands
+  const userAddressParam = block.properties?.userAddressParam;
+  if (!condition || definition.type === 'operator' || !userAddressParam || userAddressParam === USER_ADDRESS_PARAM_DEFAULT) {
+    return condition;
+  }
+  return replaceContextVariable(condition, USER_ADDRESS_PARAM_DEFAULT, userAddressParam);
+};
+
+export const decompileCondition = (value: unknown, path: string, unmapped: string[]): Block | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    unmapped.push(`${path}: not a condition object`);
+    return null;
+  }
+
+  const condition = value as Record<string, unknown>;
+  const definition = getDefinitionForCondition(condition);
+  if (!definition?.decompile) {
+    unmapped.push(`${path}: unsupported condition type ${JSON.stringify(condition.conditionType)}`);
+    return null;
+  }
+
+  const external = definition.type !== 'operator' && readsExternalUserAddress(condition);
+  const block = definition.decompile(external ? withDefaultUserAddress(condition) : condition, path, {
+    createBlock,
+    decompile: (nested, nestedPath) => decompileCondition(nested, nestedPath, unmapped),
+    reportUnmapped: message => unmapped.push(message)
+  });
+  if (block && external) {
+    block.properties = { ...block.properties, userAddressParam: USER_ADDRESS_PARAM_EXTERNAL_EIP4361 };
+  }
+  return block;
+};
+
+// Check a condition against its definition and the TACo schema, returning an error message or null
+export const validateCondition = (condition: TacoCondition): string | null => {
+  const definition = getDefinitionForCondition(condition);
+  if (!definition) {
+    return `Unsupported condition type: ${condition.conditionType}`;
+  }
+
+  try {
+    definition.validate?.(
+      definition.type === 'operator' ? condition : withDefaultUserAddress(condition),
+      { validate: validateCondition }
+    );
+    definition.toTacoCondition?.(condition);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+export const createTacoCondition = (condition: TacoCondition): conditions.condition.Condition => {
+  const definition = getDefinitionForCondition(condition);
+  if (!definition?.toTacoCondition) {
+    throw new Error('Unsupported condition type');
+  }
+  return definition.toTacoCondition(condition);
+};
+
+// Generate the code constructing a condition, assigned to varName
+export const generateConditionCode = (condition: TacoCondition, varName: string = 'condition'): string[] => {
+  const definition = getDefinitionForCondition(condition);
+  if (definition?.codegen) {
+    return definition.codegen(condition, varName, { generate: generateConditionCode });
+  }
+
+  // Generic condition for unknown types
+  return [
+    '// This condition type may require custom setup',
+    `const ${varName} = ${JSON.stringify(condition, null, 2)
+      .replace(/"([^"]+)":/g, '$1:')
+      .replace(/"/g, '\'')};`
+  ];
+};
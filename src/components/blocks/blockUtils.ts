@@ -1,55 +1,14 @@
-import { Block } from './BlockTypes';
-import { TacoCondition, TimeCondition, ContractCondition, RpcCondition, CompoundCondition, ChainId, ReturnValueTest, JsonRpcCondition } from '../../types/taco';
-import { utils } from 'ethers';
-
-// Helper function to convert an address to EIP-55 checksum format using ethers.js
-export const toChecksumAddress = (address: string): string => {
-  if (!address || typeof address !== 'string') {
-    return address;
-  }
-  
-  try {
-    // Ensure the address has the 0x prefix
-    const addressWith0x = address.startsWith('0x') ? address : `0x${address}`;
-    return utils.getAddress(addressWith0x);
-  } catch (error) {
-    // If the address is invalid, return it as is
-    return address;
-  }
-};
-
-// Helper function to check if a chain ID is valid
-const isValidChainId = (chainId: number): chainId is ChainId => {
-  // Allow any valid number as a chain ID
-  return !isNaN(chainId) && Number.isInteger(chainId) && chainId > 0;
-};
-
-// Helper function to safely convert a string to ChainId
-const parseChainId = (value: string): ChainId => {
-  // Ensure we're working with a trimmed string
-  const trimmedValue = value.trim();
-  
-  // If the value is empty, return the default
-  if (!trimmedValue) {
-    return 11155111; // Default to Sepolia
-  }
-  
-  const parsed = parseInt(trimmedValue);
-  
-  // Check if the parsed value is a valid chain ID (any positive integer)
-  if (!isNaN(parsed) && Number.isInteger(parsed) && parsed > 0) {
-    // Cast to ChainId type - this is safe since we're allowing any positive integer
-    return parsed as ChainId;
-  }
-  
-  // Default to Sepolia if invalid
-  return 11155111;
-};
-
-// Helper function for checking whether a string is actually numeric
-export function isNumericString(value: string): boolean {
-  return !isNaN(Number(value));
-}
+import { Block, BlockInput } from './BlockTypes';
+import { TacoCondition, FunctionAbi } from '../../types/taco';
+import { compileBlock, decompileCondition } from './blockRegistry';
+import { AmountConversion, asRecord, convertAmountInput, isArgumentInput, setFunctionArguments } from './blockHelpers';
+import {
+  checkArgumentValue,
+  checkFunctionParameters,
+  parseArgumentValue,
+  parseFunctionAbi,
+  parseParameters
+} from '../../utils/abi';
 
 export const blocksToJson = (blocks: Block[]): TacoCondition | null => {
   if (!blocks.length) return null;
@@ -65,260 +24,148 @@ export const blocksToJson = (blocks: Block[]): TacoCondition | null => {
 
   if (!rootBlock) return null;
 
-  // Recursively convert blocks to JSON
-  return blockToJson(rootBlock);
+  // Recursively convert blocks to JSON through the block registry
+  return compileBlock(rootBlock);
 };
 
-const blockToJson = (block: Block): TacoCondition | null => {
-  if (!block) return null;
+// All amount conversions in a block tree, in display order
+export const collectAmountConversions = (blocks: Block[]): AmountConversion[] =>
+  blocks.flatMap(block => (block.inputs || []).flatMap(input => {
+    if (input.connected) return collectAmountConversions([input.connected]);
+    const conversion = convertAmountInput(block, input);
+    return conversion ? [conversion] : [];
+  }));
+
+// Give a valid function ABI typed into a block one input per argument, keeping the values already entered
+export const syncFunctionArguments = (block: Block) => {
+  const inputs = block.inputs || [];
+  let functionAbi: FunctionAbi;
+  try {
+    functionAbi = parseFunctionAbi(inputs.find(input => input.id === 'abi')?.value || '');
+  } catch {
+    return;
+  }
 
-  if (block.type === 'operator') {
-    // Handle operator blocks (AND/OR)
-    const operands = block.inputs
-      ?.filter(input => input.connected)
-      .map(input => blockToJson(input.connected!))
-      .filter(Boolean) as TacoCondition[];
+  const argumentInputs = inputs.filter(isArgumentInput);
+  let values: unknown[] = argumentInputs.map(input => input.value);
+  if (!argumentInputs.length) {
+    try {
+      values = parseParameters(inputs.find(input => input.id === 'parameters')?.value || '');
+    } catch {
+      values = [];
+    }
+  }
+  setFunctionArguments(block, functionAbi.inputs, values);
+};
 
-    if (!operands?.length) return null;
+// Problems with the function ABI, method and parameters typed into a contract block, keyed by input id
+export const getContractInputErrors = (block: Block): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const getValue = (inputId: string) => block.inputs?.find(input => input.id === inputId)?.value?.trim() || '';
+  const abiText = getValue('abi');
+  const method = getValue('method');
+
+  let functionAbi: FunctionAbi | undefined;
+  if (abiText) {
+    try {
+      functionAbi = parseFunctionAbi(abiText);
+    } catch (error) {
+      errors.abi = error instanceof Error ? error.message : String(error);
+    }
+  }
 
-    return {
-      conditionType: 'compound',
-      operator: (block.properties?.operator || 'and') as 'and' | 'or' | 'not',
-      operands
-    } as CompoundCondition;
-  } else if (block.type === 'condition') {
-    // Handle condition blocks
-    const conditionType = block.properties?.conditionType as 'time' | 'contract' | 'rpc' | 'json-rpc';
-    if (!conditionType) return null;
+  if (functionAbi && method && method !== functionAbi.name) {
+    errors.method = `The function ABI describes ${functionAbi.name}`;
+  }
 
-    if (conditionType === 'time') {
-      // Time condition
-      const timeCondition: TimeCondition = {
-        conditionType: 'time',
-        chain: 11155111, // Default to Sepolia
-        method: 'blocktime',
-        returnValueTest: {
-          comparator: '>=',
-          value: 0
-        }
-      };
-      
-      // Add chain ID if present
-      const chainInput = block.inputs?.find(input => input.id === 'chain');
-      if (chainInput?.value !== undefined) {
-        // Even if the value is empty, we want to process it through parseChainId
-        // which will handle empty values appropriately
-        timeCondition.chain = parseChainId(chainInput.value);
-      }
-      
-      // Add timestamp if present
-      const timestampInput = block.inputs?.find(input => input.id === 'minTimestamp');
-      if (timestampInput?.value) {
-        const comparator = (timestampInput.comparator || '>=') as '>=' | '>' | '<=' | '<' | '==';
-        
-        timeCondition.returnValueTest = {
-          comparator,
-          value: parseInt(timestampInput.value)
-        };
-      }
-      
-      return timeCondition;
-    } else if (conditionType === 'rpc') {
-      // RPC condition (e.g., ETH balance)
-      const rpcCondition: RpcCondition = {
-        conditionType: 'rpc',
-        chain: 11155111, // Default to Sepolia
-        method: 'eth_getBalance',
-        parameters: [':userAddress', 'latest'] as [string, 'latest'],
-        returnValueTest: {
-          comparator: '>=',
-          value: '0'
-        }
-      };
-      
-      // Add chain ID if present
-      const chainInput = block.inputs?.find(input => input.id === 'chain');
-      if (chainInput?.value !== undefined) {
-        // Even if the value is empty, we want to process it through parseChainId
-        rpcCondition.chain = parseChainId(chainInput.value);
-      }
-      
-      // Add method if present in properties
-      if (block.properties?.method) {
-        rpcCondition.method = block.properties.method as 'eth_getBalance';
-      }
-      
-      // Add parameters if present in properties
-      if (block.properties?.parameters) {
-        rpcCondition.parameters = block.properties.parameters as [string, 'latest'];
-        
-        // Convert any Ethereum addresses in parameters to checksum format
-        rpcCondition.parameters = rpcCondition.parameters.map(param => {
-          // Skip special placeholders like :userAddress
-          if (typeof param === 'string' && !param.startsWith(':') && /^(0x)?[0-9a-fA-F]{40}$/.test(param)) {
-            return toChecksumAddress(param);
-          }
-          return param;
-        }) as [string, 'latest'];
-      }
-      
-      // Add balance test if present
-      const balanceInput = block.inputs?.find(input => input.id === 'minBalance');
-      if (balanceInput?.value) {
-        const comparator = (balanceInput.comparator || '>=') as '>=' | '>' | '<=' | '<' | '==';
-        
-        rpcCondition.returnValueTest = {
-          comparator,
-          value: parseInt(balanceInput.value)
-        };
-      }
-      
-      return rpcCondition;
-    } else if (conditionType === 'json-rpc') {
-      // JsonRpcCondition
-      const jsonRpcCondition: JsonRpcCondition = {
-        conditionType: 'json-rpc',
-        endpoint: '',
-        method: '',
-        returnValueTest: {
-          comparator: '>=',
-          value: 0
-        }
-      };
+  if (block.inputs?.some(input => input.id === 'parameters')) {
+    try {
+      const parameters = parseParameters(getValue('parameters'));
+      const parameterError = functionAbi ? checkFunctionParameters(functionAbi, parameters) : null;
+      if (parameterError) errors.parameters = parameterError;
+    } catch (error) {
+      errors.parameters = error instanceof Error ? error.message : String(error);
+    }
+  }
 
-      // Add endpoint URI if present
-      const endpointInput = block.inputs?.find(input => input.id === 'endpoint');
-      if (endpointInput?.value) {
-        jsonRpcCondition.endpoint = endpointInput.value;
-      }
+  block.inputs?.filter(isArgumentInput).forEach((input, index) => {
+    const parameter = functionAbi?.inputs[index];
+    if (!parameter || !input.value?.trim()) return;
+    try {
+      const error = checkArgumentValue(parameter, parseArgumentValue(input.value, parameter.type));
+      if (error) errors[input.id] = error;
+    } catch (error) {
+      errors[input.id] = error instanceof Error ? error.message : String(error);
+    }
+  });
 
-      // Add method if present
-      const methodInput = block.inputs?.find(input => input.id === 'method');
-      if (methodInput?.value) {
-        jsonRpcCondition.method = methodInput.value;
-      }
+  return errors;
+};
 
-      // Collect all parameter values
-      const paramInputs = block.inputs?.filter(input => input.id.startsWith('param_')) || [];
-      jsonRpcCondition.params = paramInputs
-        .sort((a, b) => {
-          const aNum = parseInt(a.id.split('_')[1]);
-          const bNum = parseInt(b.id.split('_')[1]);
-          return aNum - bNum;
-        })
-        .map(input => input.value || '')
-        .filter(value => value !== '');
+// An input of a block coming from outside the app, with any block connected to it
+const isBlockInputLike = (value: unknown): value is BlockInput => {
+  if (!value || typeof value !== 'object') return false;
+  const input = value as Record<string, unknown>;
+  return typeof input.id === 'string' &&
+    (typeof input.type === 'string' || (Array.isArray(input.type) && input.type.every(kind => typeof kind === 'string'))) &&
+    (input.value === undefined || typeof input.value === 'string') &&
+    (input.connected === undefined || isBlockLike(input.connected));
+};
 
-      // Add query if present
-      const queryInput = block.inputs?.find(input => input.id === 'query');
-      if (queryInput?.value) {
-        jsonRpcCondition.query = queryInput.value;
-      }
+// Structural check for blocks coming from outside the app (links, files, storage), down through every
+// input and connected block, so a malformed tree is rejected before it reaches the workspace
+export const isBlockLike = (value: unknown): value is Block => {
+  if (!value || typeof value !== 'object') return false;
+  const block = value as Record<string, unknown>;
+  return typeof block.id === 'string' &&
+    typeof block.type === 'string' &&
+    typeof block.label === 'string' &&
+    (block.inputs === undefined || (Array.isArray(block.inputs) && block.inputs.every(isBlockInputLike)));
+};
 
-      // Add authorization token only if present and has a value
-      const authTokenInput = block.inputs?.find(input => input.id === 'authorizationToken');
-      if (authTokenInput?.value) {
-        jsonRpcCondition.authorizationToken = authTokenInput.value;
-      }
+export const formatJson = (json: TacoCondition | null): string => {
+  if (!json) return '';
+  return JSON.stringify(json, null, 2);
+}; 
+// Result of decompiling a condition back into workspace blocks
+export interface DecompileResult {
+  blocks: Block[];
+  // Human-readable descriptions of the parts that could not be represented as blocks
+  unmapped: string[];
+}
 
-      // Add return value test if present
-      const expectedValueInput = block.inputs?.find(input => input.id === 'expectedValue');
-      if (expectedValueInput?.value) {
-        const comparator = (expectedValueInput.comparator || '>=') as '>=' | '>' | '<=' | '<' | '==';
+// Rebuild the workspace block tree from a condition (the inverse of blocksToJson)
+export const jsonToBlocks = (condition: TacoCondition): DecompileResult => {
+  const unmapped: string[] = [];
+  const rootBlock = decompileCondition(condition, 'condition', unmapped);
 
-        jsonRpcCondition.returnValueTest = {
-          comparator,
-          value: isNumericString(expectedValueInput.value) ? parseInt(expectedValueInput.value) : expectedValueInput.value
-        };
-      } else if (block.properties?.returnValueTest) {
-        jsonRpcCondition.returnValueTest = block.properties.returnValueTest as ReturnValueTest;
-      }
+  return {
+    blocks: rootBlock ? [rootBlock] : [],
+    unmapped
+  };
+};
 
-      return jsonRpcCondition;
-    } else if (conditionType === 'contract') {
-      // Contract condition (e.g., ERC20, ERC721)
-      const contractCondition: ContractCondition = {
-        conditionType: 'contract',
-        chain: 11155111, // Default to Sepolia
-        contractAddress: '',
-        method: 'balanceOf',
-        parameters: [':userAddress'],
-        returnValueTest: {
-          comparator: '>=',
-          value: '0'
-        }
-      };
-      
-      // Add chain ID if present
-      const chainInput = block.inputs?.find(input => input.id === 'chain');
-      if (chainInput?.value !== undefined) {
-        // Even if the value is empty, we want to process it through parseChainId
-        contractCondition.chain = parseChainId(chainInput.value);
-      }
-      
-      // Add contract address if present
-      const contractInput = block.inputs?.find(input => input.id === 'contractAddress');
-      if (contractInput?.value) {
-        contractCondition.contractAddress = toChecksumAddress(contractInput.value);
-      }
-      
-      // Add standard contract type if present
-      if (block.properties?.standardContractType) {
-        contractCondition.standardContractType = block.properties.standardContractType as 'ERC20' | 'ERC721';
-      }
-      
-      // Add method if present in properties
-      if (block.properties?.method) {
-        contractCondition.method = block.properties.method as string;
-      }
-      
-      // Add parameters if present in properties
-      if (block.properties?.parameters) {
-        contractCondition.parameters = Array.isArray(block.properties.parameters) 
-          ? [...block.properties.parameters] 
-          : [block.properties.parameters];
-        
-        // Special handling for ERC721 ownership - replace :tokenId with actual token ID
-        if (block.properties.standardContractType === 'ERC721' && block.properties.method === 'ownerOf') {
-          const tokenIdInput = block.inputs?.find(input => input.id === 'tokenId');
-          if (tokenIdInput?.value) {
-            // Replace :tokenId placeholder with actual token ID as a number
-            const tokenId = parseInt(tokenIdInput.value);
-            contractCondition.parameters = [isNaN(tokenId) ? 0 : tokenId];
-          }
-        }
-        
-        // Convert any Ethereum addresses in parameters to checksum format
-        contractCondition.parameters = contractCondition.parameters.map(param => {
-          // Skip special placeholders like :userAddress
-          if (typeof param === 'string' && !param.startsWith(':') && /^(0x)?[0-9a-fA-F]{40}$/.test(param)) {
-            return toChecksumAddress(param);
-          }
-          return param;
-        });
-      }
-      
-      // Add return value test if present
-      const tokenAmountInput = block.inputs?.find(input => input.id === 'tokenAmount');
-      if (tokenAmountInput?.value) {
-        const comparator = (tokenAmountInput.comparator || '>=') as '>=' | '>' | '<=' | '<' | '==';
-        
-        contractCondition.returnValueTest = {
-          comparator,
-          value: parseInt(tokenAmountInput.value)
-        };
-      } else if (block.properties?.returnValueTest) {
-        contractCondition.returnValueTest = block.properties.returnValueTest as ReturnValueTest;
-      }
-      
-      return contractCondition;
-    }
+// Parse user-provided JSON into a condition, accepting either a bare condition
+// or a serialized ConditionExpression ({ version, condition })
+export const parseConditionJson = (text: string): TacoCondition => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
   }
 
-  return null;
-};
+  let condition = asRecord(parsed);
+  if (condition && !('conditionType' in condition) && 'condition' in condition) {
+    condition = asRecord(condition.condition);
+  }
 
-export const formatJson = (json: TacoCondition | null): string => {
-  if (!json) return '';
-  return JSON.stringify(json, null, 2);
-}; 
\ No newline at end of file
+  if (!condition) {
+    throw new Error('Expected a condition object');
+  }
+  if (typeof condition.conditionType !== 'string') {
+    throw new Error('Missing "conditionType" field');
+  }
+
+  return condition as unknown as TacoCondition;
+};
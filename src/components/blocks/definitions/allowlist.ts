@@ -0,0 +1,233 @@
+import { conditions } from '@nucypher/taco';
+import { utils } from 'ethers';
+import { Block, BLOCK_CATEGORIES } from '../BlockTypes';
+import type { BlockDefinition, DecompileContext } from '../blockRegistry';
+import { CompoundCondition, ContractCondition, FunctionAbi, TacoCondition } from '../../../types/taco';
+import { asRecord, parseChainId, setInputValue, toChecksumAddress } from '../blockHelpers';
+import { MAX_ALLOWLIST_ADDRESSES, parseAddressList } from '../../../utils/addressList';
+import { ConditionRecord, findInput, validateCompound, codegenCompound } from './shared';
+import {
+  isContract,
+  decompileContractTarget,
+  validateContract,
+  toContractCondition,
+  codegenContract
+} from './contracts';
+
+// Wallet allowlists
+
+// TACo has no condition that compares :userAddress with a literal address, so each allowed address is
+// checked through ENS's reverse registrar: its pure node(address) function maps every address to a
+// distinct hash that can be computed here and compared with the one returned for :userAddress
+const ENS_REVERSE_REGISTRAR = {
+  chain: 1,
+  address: '0xa58E81fe9b61B5c3fE2AFD33CF304c454AbFc7Cb'
+};
+
+const REVERSE_NODE_ABI: FunctionAbi = {
+  type: 'function',
+  name: 'node',
+  inputs: [{ name: 'addr', type: 'address', internalType: 'address' }],
+  outputs: [{ name: '', type: 'bytes32', internalType: 'bytes32' }],
+  stateMutability: 'pure'
+};
+
+// The ENS node of <address>.addr.reverse, which node(address) returns
+const getReverseNode = (address: string): string =>
+  utils.namehash(`${address.toLowerCase().slice(2)}.addr.reverse`);
+
+// Checks that :userAddress has the given reverse node
+const compileReverseNodeTest = (node: string): ContractCondition => ({
+  conditionType: 'contract',
+  chain: ENS_REVERSE_REGISTRAR.chain,
+  contractAddress: ENS_REVERSE_REGISTRAR.address,
+  method: 'node',
+  functionAbi: REVERSE_NODE_ABI,
+  parameters: [':userAddress'],
+  returnValueTest: { comparator: '==', value: node }
+});
+
+// Entries that are not addresses are kept as entered so validation can name them
+const compileAllowlistEntry = (entry: string): ContractCondition =>
+  compileReverseNodeTest(utils.isAddress(entry) ? getReverseNode(entry) : entry);
+
+const toAllowlistCondition = (operands: ContractCondition[]): TacoCondition =>
+  operands.length === 1
+    ? operands[0]
+    : { conditionType: 'compound', operator: 'or', operands } as CompoundCondition;
+
+const isAllowlistEntry = (condition: ConditionRecord) =>
+  isContract(condition) &&
+  condition.chain === ENS_REVERSE_REGISTRAR.chain &&
+  condition.contractAddress === ENS_REVERSE_REGISTRAR.address &&
+  condition.method === 'node' &&
+  Array.isArray(condition.parameters) && condition.parameters[0] === ':userAddress';
+
+// An allowlist is :userAddress matched against one address, or an OR over several
+const isAllowlist = (condition: ConditionRecord) =>
+  isAllowlistEntry(condition) || (
+    condition.conditionType === 'compound' &&
+    condition.operator === 'or' &&
+    Array.isArray(condition.operands) &&
+    condition.operands.length >= 2 &&
+    condition.operands.every(operand => asRecord(operand) !== null && isAllowlistEntry(operand))
+  );
+
+const compileAllowlist = (block: Block): TacoCondition => {
+  const list = parseAddressList(findInput(block, 'addresses')?.value || '');
+  const entries = [...list.addresses, ...list.invalid];
+  return toAllowlistCondition((entries.length ? entries : ['']).map(compileAllowlistEntry));
+};
+
+const getAllowlistEntries = (condition: ConditionRecord): ConditionRecord[] =>
+  condition.conditionType === 'compound' ? condition.operands as ConditionRecord[] : [condition];
+
+// The compared hashes cannot be turned back into addresses, so they are kept as they are in a
+// read-only block that compiles to the same condition
+const decompileAllowlist = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('wallet-allowlist-hashed');
+  block.inputs = getAllowlistEntries(condition).map((entry, index) => ({
+    id: `node_${index}`,
+    type: ['string'],
+    label: `Address ${index + 1} (ENS reverse node)`,
+    inputType: 'text',
+    readOnly: true,
+    value: String(asRecord(entry.returnValueTest)?.value ?? '')
+  }));
+  return block;
+};
+
+const compileHashedAllowlist = (block: Block): TacoCondition =>
+  toAllowlistCondition((block.inputs || [])
+    .filter(input => input.id.startsWith('node_'))
+    .map(input => compileReverseNodeTest(input.value || '')));
+
+const validateAllowlistEntry = (condition: TacoCondition) => {
+  validateContract(condition);
+  const { value } = (condition as ContractCondition).returnValueTest;
+  if (typeof value !== 'string' || !utils.isHexString(value, 32)) {
+    throw new Error(value ? `${value} is not a valid address` : 'Add at least one address to the allowlist');
+  }
+};
+
+const validateAllowlist = (
+  condition: TacoCondition,
+  context: { validate: (condition: TacoCondition) => string | null }
+) => {
+  if (condition.conditionType !== 'compound') {
+    validateAllowlistEntry(condition);
+    return;
+  }
+  if (condition.operands.length > MAX_ALLOWLIST_ADDRESSES) {
+    throw new Error(
+      `An allowlist can hold at most ${MAX_ALLOWLIST_ADDRESSES} addresses; use an allowlist contract for longer lists`
+    );
+  }
+  validateCompound(condition, context);
+};
+
+// The contract alternative calls a view function taking the address and returning whether it is allowed
+const getAllowlistContractAbi = (method: string): FunctionAbi => ({
+  type: 'function',
+  name: method,
+  inputs: [{ name: 'account', type: 'address', internalType: 'address' }],
+  outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+  stateMutability: 'view'
+});
+
+const compileAllowlistContract = (block: Block): ContractCondition => {
+  const method = findInput(block, 'method')?.value?.trim() || '';
+  return {
+    conditionType: 'contract',
+    chain: parseChainId(findInput(block, 'chain')?.value || ''),
+    contractAddress: toChecksumAddress(findInput(block, 'contractAddress')?.value || ''),
+    method,
+    functionAbi: getAllowlistContractAbi(method),
+    parameters: [':userAddress'],
+    returnValueTest: { comparator: '==', value: true }
+  };
+};
+
+const isAllowlistContract = (condition: ConditionRecord) => {
+  const functionAbi = asRecord(condition.functionAbi);
+  const inputs = Array.isArray(functionAbi?.inputs) ? functionAbi.inputs as ConditionRecord[] : [];
+  const outputs = Array.isArray(functionAbi?.outputs) ? functionAbi.outputs as ConditionRecord[] : [];
+  const returnValueTest = asRecord(condition.returnValueTest);
+  return isContract(condition) &&
+    !condition.standardContractType &&
+    !isAllowlistEntry(condition) &&
+    functionAbi?.name === condition.method &&
+    inputs.length === 1 && inputs[0]?.type === 'address' &&
+    outputs.length === 1 && outputs[0]?.type === 'bool' &&
+    Array.isArray(condition.parameters) && condition.parameters.length === 1 && condition.parameters[0] === ':userAddress' &&
+    returnValueTest?.comparator === '==' && returnValueTest.value === true &&
+    returnValueTest.index === undefined;
+};
+
+const decompileAllowlistContract = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('wallet-allowlist-contract');
+  setInputValue(block, 'method', String(condition.method ?? ''));
+  return decompileContractTarget(block, condition);
+};
+
+export const ALLOWLIST_DEFINITIONS: BlockDefinition[] = [
+  {
+    id: 'wallet-allowlist',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'Wallet Allowlist',
+    inputs: [
+      { id: 'addresses', type: ['string'], label: 'Allowed Addresses' },
+    ],
+    properties: {
+      conditionType: 'contract',
+      method: 'node',
+      parameters: [':userAddress']
+    },
+    matchesCondition: isAllowlist,
+    compile: compileAllowlist,
+    decompile: decompileAllowlist,
+    validate: validateAllowlist,
+    toTacoCondition: condition => condition.conditionType === 'compound'
+      ? new conditions.compound.CompoundCondition(condition as CompoundCondition)
+      : toContractCondition(condition),
+    codegen: (condition, varName, context) => condition.conditionType === 'compound'
+      ? codegenCompound(condition, varName, context)
+      : codegenContract(condition, varName)
+  },
+  {
+    // Allowlists read back from a condition, whose addresses are only known by their hashes
+    id: 'wallet-allowlist-hashed',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'Wallet Allowlist (hashed addresses, read-only)',
+    hidden: true,
+    properties: {
+      conditionType: 'contract',
+      method: 'node',
+      parameters: [':userAddress']
+    },
+    compile: compileHashedAllowlist
+  },
+  {
+    id: 'wallet-allowlist-contract',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'Allowlist Contract',
+    inputs: [
+      { id: 'contractAddress', type: ['address'], label: 'Contract Address' },
+      { id: 'method', type: ['string'], label: 'Method Name', value: 'isAllowlisted' },
+      { id: 'chain', type: ['chainId'], label: 'Chain ID', inputType: 'number' },
+    ],
+    properties: {
+      conditionType: 'contract',
+      parameters: [':userAddress']
+    },
+    matchesCondition: isAllowlistContract,
+    compile: compileAllowlistContract,
+    decompile: decompileAllowlistContract,
+    validate: validateContract,
+    toTacoCondition: toContractCondition,
+    codegen: codegenContract
+  }
+];
@@ -0,0 +1,208 @@
+import { conditions } from '@nucypher/taco';
+import { Block } from '../BlockTypes';
+import { Comparator, ContractCondition, FunctionAbi, ReturnValueTest, TacoCondition } from '../../../types/taco';
+import { asRecord, parseChainId, setInputValue, toChecksumAddress } from '../blockHelpers';
+import { isIntegerString, toConditionInteger } from '../../../utils/units';
+import { checkFunctionParameters, describeOutput, getFunctionOutputs, isAbiBaseType } from '../../../utils/abi';
+import {
+  ConditionRecord,
+  toCodeLiteral,
+  chainLine,
+  findInput,
+  compileAmount,
+  compileReturnValue,
+  validateReturnValueTest,
+  checksumParameters
+} from './shared';
+
+// Contracts: the matching, compiling and validation shared by every block that compiles to a contract condition
+
+export const isContract = (condition: ConditionRecord) => condition.conditionType === 'contract';
+export const isErc20Balance = (condition: ConditionRecord) =>
+  isContract(condition) && condition.standardContractType === 'ERC20' && condition.method === 'balanceOf';
+export const isErc721Balance = (condition: ConditionRecord) =>
+  isContract(condition) && condition.standardContractType === 'ERC721' && condition.method === 'balanceOf';
+export const isErc721Ownership = (condition: ConditionRecord) =>
+  isContract(condition) && condition.standardContractType === 'ERC721' && condition.method === 'ownerOf';
+
+// ERC1155 has no standard contract type in TACo, so its balance is read through a function ABI
+export const ERC1155_BALANCE_OF_ABI: FunctionAbi = {
+  type: 'function',
+  name: 'balanceOf',
+  inputs: [
+    { name: 'account', type: 'address', internalType: 'address' },
+    { name: 'id', type: 'uint256', internalType: 'uint256' }
+  ],
+  outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+  stateMutability: 'view'
+};
+
+export const isErc1155Balance = (condition: ConditionRecord) => {
+  const functionAbi = asRecord(condition.functionAbi);
+  const inputs = Array.isArray(functionAbi?.inputs) ? functionAbi.inputs as ConditionRecord[] : [];
+  return isContract(condition) &&
+    !condition.standardContractType &&
+    condition.method === 'balanceOf' &&
+    functionAbi?.name === 'balanceOf' &&
+    inputs.length === 2 && inputs[0]?.type === 'address' && inputs[1]?.type === 'uint256' &&
+    Array.isArray(condition.parameters) && condition.parameters[0] === ':userAddress';
+};
+
+// Blocks saved without a definition id are recognized by the properties they were created with
+export const hasContractProperties = (standardContractType: string, method: string) => (block: Block) =>
+  block.properties?.conditionType === 'contract' &&
+  block.properties.standardContractType === standardContractType &&
+  block.properties.method === method;
+
+export const compileContract = (block: Block): TacoCondition => {
+  const contractCondition: ContractCondition = {
+    conditionType: 'contract',
+    chain: 11155111, // Default to Sepolia
+    contractAddress: '',
+    method: 'balanceOf',
+    parameters: [':userAddress'],
+    returnValueTest: {
+      comparator: '>=',
+      value: '0'
+    }
+  };
+
+  // Add chain ID if present
+  const chainInput = findInput(block, 'chain');
+  if (chainInput?.value !== undefined) {
+    // Even if the value is empty, we want to process it through parseChainId
+    contractCondition.chain = parseChainId(chainInput.value);
+  }
+
+  // Add contract address if present
+  const contractInput = findInput(block, 'contractAddress');
+  if (contractInput?.value) {
+    contractCondition.contractAddress = toChecksumAddress(contractInput.value);
+  }
+
+  // Add standard contract type if present
+  if (block.properties?.standardContractType) {
+    contractCondition.standardContractType = block.properties.standardContractType;
+  }
+
+  // Add method if present in properties
+  if (block.properties?.method) {
+    contractCondition.method = block.properties.method;
+  }
+
+  // Add parameters if present in properties
+  if (block.properties?.parameters) {
+    contractCondition.parameters = Array.isArray(block.properties.parameters)
+      ? [...block.properties.parameters]
+      : [block.properties.parameters];
+
+    // Special handling for ERC721 ownership - replace :tokenId with actual token ID
+    if (block.properties.standardContractType === 'ERC721' && block.properties.method === 'ownerOf') {
+      const tokenIdInput = findInput(block, 'tokenId');
+      if (tokenIdInput?.value) {
+        // Replace :tokenId placeholder with the exact token ID, or a variable such as a sequential step's result
+        const tokenId = tokenIdInput.value.trim();
+        contractCondition.parameters = [
+          tokenId.startsWith(':') ? tokenId : isIntegerString(tokenId) ? toConditionInteger(tokenId) : 0
+        ];
+      }
+    }
+
+    contractCondition.parameters = checksumParameters(contractCondition.parameters);
+  }
+
+  // Add return value test if present
+  const tokenAmountInput = findInput(block, 'tokenAmount');
+  const expectedValueInput = findInput(block, 'expectedValue');
+  if (tokenAmountInput?.value) {
+    contractCondition.returnValueTest = {
+      comparator: (tokenAmountInput.comparator || '>=') as Comparator,
+      value: compileAmount(block, tokenAmountInput)
+    };
+  } else if (expectedValueInput?.value) {
+    contractCondition.returnValueTest = {
+      comparator: (expectedValueInput.comparator || '>=') as Comparator,
+      value: compileReturnValue(expectedValueInput)
+    };
+    // Functions with several outputs compare the one picked on the block, the first by default
+    if (getFunctionOutputs(findInput(block, 'abi')?.value).length > 1) {
+      contractCondition.returnValueTest.index = expectedValueInput.outputIndex ?? 0;
+    }
+  } else if (block.properties?.returnValueTest) {
+    contractCondition.returnValueTest = block.properties.returnValueTest as ReturnValueTest;
+  }
+
+  return contractCondition;
+};
+
+// Chain and address are common to every contract block
+export const decompileContractTarget = (block: Block, condition: ConditionRecord): Block => {
+  setInputValue(block, 'chain', String(condition.chain ?? ''));
+  setInputValue(block, 'contractAddress', String(condition.contractAddress ?? ''));
+  return block;
+};
+
+export const contractParameters = (condition: ConditionRecord): unknown[] =>
+  Array.isArray(condition.parameters) ? [...condition.parameters] : [];
+
+export const validateContract = (condition: TacoCondition) => {
+  validateReturnValueTest(condition);
+  const { contractAddress, method, standardContractType, functionAbi, parameters, returnValueTest } =
+    condition as ContractCondition;
+  if (!contractAddress) throw new Error('Contract address is required');
+  if (!method) throw new Error('Contract method is required');
+
+  if (standardContractType && functionAbi) {
+    throw new Error('A contract condition takes either a standard contract type or a function ABI, not both');
+  }
+  if (!standardContractType && !functionAbi) {
+    throw new Error('A function ABI is required for contracts without a standard contract type');
+  }
+  if (functionAbi) {
+    if (functionAbi.name !== method) {
+      throw new Error(`Method ${method} does not match the function ABI (${functionAbi.name})`);
+    }
+    const unsupported = [...functionAbi.inputs, ...functionAbi.outputs].find(variable => !isAbiBaseType(variable.type));
+    if (unsupported) {
+      throw new Error(`Type ${unsupported.type} is not supported in a condition's function ABI`);
+    }
+    const parameterError = checkFunctionParameters(functionAbi, Array.isArray(parameters) ? parameters : []);
+    if (parameterError) throw new Error(parameterError);
+  }
+
+  const { index } = returnValueTest;
+  if (index !== undefined) {
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error('Return value index must be a non-negative integer');
+    }
+    const outputCount = functionAbi?.outputs?.length;
+    if (outputCount !== undefined && index >= outputCount) {
+      throw new Error(`Return value index ${index} is out of range; ${functionAbi?.name || method} has ${outputCount} output(s)`);
+    }
+  }
+};
+
+export const toContractCondition = (condition: TacoCondition) =>
+  new conditions.base.contract.ContractCondition(condition as ContractCondition);
+
+export const codegenContract = (condition: TacoCondition, varName: string): string[] => {
+  const { chain, contractAddress, standardContractType, functionAbi, method, parameters, returnValueTest } =
+    condition as ContractCondition;
+  const lines = [
+    `const ${varName} = new conditions.base.contract.ContractCondition({`,
+    chainLine(chain)
+  ];
+  if (contractAddress) lines.push(`  contractAddress: '${contractAddress}',`);
+  if (standardContractType) lines.push(`  standardContractType: '${standardContractType}',`);
+  if (functionAbi) lines.push(`  functionAbi: ${toCodeLiteral(functionAbi)},`);
+  if (method) lines.push(`  method: '${method}',`);
+  if (parameters) lines.push(`  parameters: ${toCodeLiteral(parameters)},`);
+  if (returnValueTest) {
+    // Name the compared output of multi-output functions
+    const output = returnValueTest.index !== undefined ? functionAbi?.outputs?.[returnValueTest.index] : undefined;
+    const comment = output ? `  // ${describeOutput(output, returnValueTest.index as number)}` : '';
+    lines.push(`  returnValueTest: ${toCodeLiteral(returnValueTest)},${comment}`);
+  }
+  lines.push('});');
+  return lines;
+};
@@ -0,0 +1,139 @@
+import { Block, BLOCK_CATEGORIES } from '../BlockTypes';
+import type { BlockDefinition, DecompileContext } from '../blockRegistry';
+import { ContractCondition, TacoCondition } from '../../../types/taco';
+import { decompileReturnValueTest, isArgumentInput, setFunctionArguments, setInputValue } from '../blockHelpers';
+import { getFunctionOutputs, parseArgumentValue, parseFunctionAbi, parseParameters } from '../../../utils/abi';
+import { ConditionRecord, findInput, decompileExpectedValue, checksumParameters } from './shared';
+import {
+  isContract,
+  compileContract,
+  decompileContractTarget,
+  contractParameters,
+  validateContract,
+  toContractCondition,
+  codegenContract
+} from './contracts';
+
+// Custom contracts
+
+// The method, parameters and ABI typed into the block replace the defaults; text that does not parse is
+// left out of the condition and flagged on the block
+const compileCustomContract = (block: Block): TacoCondition => {
+  const contractCondition = compileContract(block) as ContractCondition;
+
+  const abiInput = findInput(block, 'abi');
+  if (abiInput?.value?.trim()) {
+    try {
+      contractCondition.functionAbi = parseFunctionAbi(abiInput.value);
+      // A condition is described either by a standard contract type or by a function ABI
+      delete contractCondition.standardContractType;
+    } catch {
+      // Reported inline by the block
+    }
+  }
+
+  const methodInput = findInput(block, 'method');
+  if (methodInput?.value?.trim()) {
+    contractCondition.method = methodInput.value.trim();
+  } else if (contractCondition.functionAbi) {
+    contractCondition.method = contractCondition.functionAbi.name;
+  }
+
+  const parametersInput = findInput(block, 'parameters');
+  if (parametersInput) {
+    try {
+      contractCondition.parameters = checksumParameters(parseParameters(parametersInput.value || ''));
+    } catch {
+      contractCondition.parameters = [];
+    }
+  } else {
+    // A function picked from an ABI has one input per argument
+    const argumentTypes = contractCondition.functionAbi?.inputs.map(input => input.type) || [];
+    contractCondition.parameters = (block.inputs || []).filter(isArgumentInput).map((input, index) => {
+      const value = input.value || '';
+      try {
+        return argumentTypes[index] ? parseArgumentValue(value, argumentTypes[index]) : value;
+      } catch {
+        return value;
+      }
+    });
+  }
+
+  return contractCondition;
+};
+
+const decompileCustomContract = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('custom-contract');
+  const method = String(condition.method ?? '');
+  const parameters = contractParameters(condition);
+
+  setInputValue(block, 'method', method);
+  setInputValue(block, 'parameters', JSON.stringify(parameters));
+  block.properties = { ...block.properties, method, parameters };
+  if (condition.standardContractType) {
+    block.properties.standardContractType = condition.standardContractType as 'ERC20' | 'ERC721';
+  }
+  if (condition.functionAbi) {
+    setInputValue(block, 'abi', JSON.stringify(condition.functionAbi));
+    // Arguments of a well-formed ABI get their own inputs, as when the function is picked on the block
+    try {
+      const functionAbi = parseFunctionAbi(JSON.stringify(condition.functionAbi));
+      if (functionAbi.inputs.length === parameters.length) {
+        setFunctionArguments(block, functionAbi.inputs, parameters);
+      }
+    } catch {
+      // Left as JSON in the ABI and parameters inputs for the user to fix
+    }
+  }
+
+  const returnValueTest = decompileReturnValueTest(condition, path, context.reportUnmapped, true);
+  if (returnValueTest && !decompileExpectedValue(block, returnValueTest)) {
+    block.properties.returnValueTest = returnValueTest;
+  } else if (returnValueTest?.index !== undefined) {
+    // The output picker is only offered for function ABIs with several outputs
+    const outputs = getFunctionOutputs(findInput(block, 'abi')?.value);
+    const expectedValueInput = findInput(block, 'expectedValue');
+    if (outputs.length > 1 && expectedValueInput) {
+      expectedValueInput.outputIndex = returnValueTest.index;
+    } else {
+      context.reportUnmapped(`${path}.returnValueTest.index: output selection needs a function ABI with several outputs`);
+    }
+  }
+
+  return decompileContractTarget(block, condition);
+};
+
+export const CUSTOM_CONTRACT_DEFINITIONS: BlockDefinition[] = [
+  {
+    id: 'custom-contract',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'Custom Contract Call',
+    inputs: [
+      { id: 'contractAddress', type: ['address'], label: 'Contract Address' },
+      { id: 'method', type: ['string'], label: 'Method Name' },
+      { id: 'chain', type: ['chainId'], label: 'Chain ID', inputType: 'number' },
+      { id: 'abi', type: ['json'], label: 'Function ABI (JSON)' },
+      { id: 'parameters', type: ['json'], label: 'Parameters (JSON)', placeholder: '[":userAddress"]' },
+      {
+        id: 'expectedValue',
+        type: ['string', 'uint256', 'address'],
+        label: 'Expected Value',
+        inputType: 'text',
+        valueType: 'bigint'
+      },
+    ],
+    properties: {
+      conditionType: 'contract',
+    },
+    // Any contract block or condition; the more specific contract blocks are registered after this one,
+    // so they take precedence for what they recognize
+    matchesBlock: block => block.properties?.conditionType === 'contract',
+    matchesCondition: isContract,
+    compile: compileCustomContract,
+    decompile: decompileCustomContract,
+    validate: validateContract,
+    toTacoCondition: toContractCondition,
+    codegen: codegenContract
+  }
+];
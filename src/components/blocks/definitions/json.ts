@@ -0,0 +1,319 @@
+import { conditions } from '@nucypher/taco';
+import { Block, BlockInput, BLOCK_CATEGORIES } from '../BlockTypes';
+import type { BlockDefinition, DecompileContext } from '../blockRegistry';
+import { Comparator, JsonApiCondition, JsonRpcCondition, ReturnValueTest, TacoCondition } from '../../../types/taco';
+import { asRecord, decompileReturnValueTest, setInputValue } from '../blockHelpers';
+import { isContextVariable } from '../../../utils/returnValues';
+import {
+  ConditionRecord,
+  toCodeLiteral,
+  findInput,
+  compileReturnValue,
+  decompileExpectedValue,
+  validateReturnValueTest
+} from './shared';
+
+// JSON RPC and JSON API
+
+// The non-empty values of the inputs added with the block's "Add parameter" button, in order
+const getParameterValues = (block: Block): string[] =>
+  (block.inputs?.filter(input => input.id.startsWith('param_')) || [])
+    .sort((a, b) => {
+      const aNum = parseInt(a.id.split('_')[1]);
+      const bNum = parseInt(b.id.split('_')[1]);
+      return aNum - bNum;
+    })
+    .map(input => input.value || '')
+    .filter(value => value !== '');
+
+// Replace the block's parameter inputs with one input per value
+const setParameterValues = (block: Block, values: string[]) => {
+  const firstParamIndex = block.inputs?.findIndex(input => input.id === 'param_0') ?? -1;
+  const template = firstParamIndex !== -1 ? block.inputs![firstParamIndex] : undefined;
+  const paramInputs: BlockInput[] = (values.length ? values : ['']).map((value, index) => ({
+    id: `param_${index}`,
+    type: ['string', 'uint256'],
+    label: `Parameter ${index + 1}`,
+    inputType: 'text',
+    ...(template?.placeholder ? { placeholder: template.placeholder } : {}),
+    value
+  }));
+  if (block.inputs && firstParamIndex !== -1) {
+    block.inputs.splice(firstParamIndex, 1, ...paramInputs);
+  }
+  block.properties = { ...block.properties, parameterCount: paramInputs.length };
+};
+
+const compileJsonRpc = (block: Block): TacoCondition => {
+  const jsonRpcCondition: JsonRpcCondition = {
+    conditionType: 'json-rpc',
+    endpoint: '',
+    method: '',
+    returnValueTest: {
+      comparator: '>=',
+      value: 0
+    }
+  };
+
+  // Add endpoint URI if present
+  const endpointInput = findInput(block, 'endpoint');
+  if (endpointInput?.value) {
+    jsonRpcCondition.endpoint = endpointInput.value;
+  }
+
+  // Add method if present
+  const methodInput = findInput(block, 'method');
+  if (methodInput?.value) {
+    jsonRpcCondition.method = methodInput.value;
+  }
+
+  // Collect all parameter values
+  jsonRpcCondition.params = getParameterValues(block);
+
+  // Add query if present
+  const queryInput = findInput(block, 'query');
+  if (queryInput?.value) {
+    jsonRpcCondition.query = queryInput.value;
+  }
+
+  // Add authorization token only if present and has a value
+  const authTokenInput = findInput(block, 'authorizationToken');
+  if (authTokenInput?.value) {
+    jsonRpcCondition.authorizationToken = authTokenInput.value;
+  }
+
+  // Add return value test if present
+  const expectedValueInput = findInput(block, 'expectedValue');
+  if (expectedValueInput?.value) {
+    jsonRpcCondition.returnValueTest = {
+      comparator: (expectedValueInput.comparator || '>=') as Comparator,
+      value: compileReturnValue(expectedValueInput)
+    };
+  } else if (block.properties?.returnValueTest) {
+    jsonRpcCondition.returnValueTest = block.properties.returnValueTest as ReturnValueTest;
+  }
+
+  return jsonRpcCondition;
+};
+
+const decompileJsonRpc = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('json-rpc');
+  setInputValue(block, 'endpoint', String(condition.endpoint ?? ''));
+  setInputValue(block, 'method', String(condition.method ?? ''));
+
+  if (typeof condition.query === 'string') {
+    setInputValue(block, 'query', condition.query);
+  }
+  if (typeof condition.authorizationToken === 'string') {
+    setInputValue(block, 'authorizationToken', condition.authorizationToken);
+  }
+
+  // Rebuild one parameter input per positional param
+  if (Array.isArray(condition.params)) {
+    setParameterValues(block, condition.params.map(param => typeof param === 'string' ? param : JSON.stringify(param)));
+  } else if (condition.params !== undefined) {
+    context.reportUnmapped(`${path}.params: named (object) parameters are not supported by the JSON RPC block`);
+  }
+
+  const returnValueTest = decompileReturnValueTest(condition, path, context.reportUnmapped);
+  if (returnValueTest && !decompileExpectedValue(block, returnValueTest)) {
+    context.reportUnmapped(`${path}.returnValueTest.value: ${JSON.stringify(returnValueTest.value)} cannot be entered as an expected value`);
+  }
+
+  return block;
+};
+
+const codegenJsonRpc = (condition: TacoCondition, varName: string): string[] => {
+  const { endpoint, method, params, query, authorizationToken, returnValueTest } = condition as JsonRpcCondition;
+  const lines = [
+    `const ${varName} = new conditions.base.jsonRpc.JsonRpcCondition({`,
+    `  endpoint: '${endpoint}',`,
+    `  method: '${method}',`
+  ];
+  if (params && params.length > 0) lines.push(`  params: ${toCodeLiteral(params)},`);
+  if (query) lines.push(`  query: '${query}',`);
+  if (authorizationToken) lines.push(`  authorizationToken: '${authorizationToken}',`);
+  if (returnValueTest && 'value' in returnValueTest) {
+    lines.push(`  returnValueTest: { comparator: "${returnValueTest.comparator || '>='}", value: ${toCodeLiteral(returnValueTest.value)} },`);
+  }
+  lines.push('});');
+  return lines;
+};
+
+// JSON API query parameters are entered as name=value, one per parameter input
+const parseQueryParameter = (text: string): [string, string] => {
+  const separator = text.indexOf('=');
+  return separator === -1
+    ? [text.trim(), '']
+    : [text.slice(0, separator).trim(), text.slice(separator + 1).trim()];
+};
+
+const compileJsonApi = (block: Block): TacoCondition => {
+  const jsonApiCondition: JsonApiCondition = {
+    conditionType: 'json-api',
+    endpoint: findInput(block, 'endpoint')?.value?.trim() || '',
+    returnValueTest: {
+      comparator: '>=',
+      value: 0
+    }
+  };
+
+  const parameters = getParameterValues(block).map(parseQueryParameter);
+  if (parameters.length) {
+    jsonApiCondition.parameters = Object.fromEntries(parameters);
+  }
+
+  const queryInput = findInput(block, 'query');
+  if (queryInput?.value?.trim()) {
+    jsonApiCondition.query = queryInput.value.trim();
+  }
+
+  const authTokenInput = findInput(block, 'authorizationToken');
+  if (authTokenInput?.value?.trim()) {
+    jsonApiCondition.authorizationToken = authTokenInput.value.trim();
+  }
+
+  const expectedValueInput = findInput(block, 'expectedValue');
+  if (expectedValueInput?.value) {
+    jsonApiCondition.returnValueTest = {
+      comparator: (expectedValueInput.comparator || '>=') as Comparator,
+      value: compileReturnValue(expectedValueInput)
+    };
+  } else if (block.properties?.returnValueTest) {
+    jsonApiCondition.returnValueTest = block.properties.returnValueTest as ReturnValueTest;
+  }
+
+  return jsonApiCondition;
+};
+
+const decompileJsonApi = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('json-api');
+  setInputValue(block, 'endpoint', String(condition.endpoint ?? ''));
+
+  if (typeof condition.query === 'string') {
+    setInputValue(block, 'query', condition.query);
+  }
+  if (typeof condition.authorizationToken === 'string') {
+    setInputValue(block, 'authorizationToken', condition.authorizationToken);
+  }
+
+  const parameters = asRecord(condition.parameters);
+  if (parameters) {
+    setParameterValues(block, Object.entries(parameters).map(([name, value]) =>
+      `${name}=${typeof value === 'string' ? value : JSON.stringify(value)}`));
+  } else if (condition.parameters !== undefined) {
+    context.reportUnmapped(`${path}.parameters: expected an object of query parameters`);
+  }
+
+  const returnValueTest = decompileReturnValueTest(condition, path, context.reportUnmapped);
+  if (returnValueTest && !decompileExpectedValue(block, returnValueTest)) {
+    context.reportUnmapped(`${path}.returnValueTest.value: ${JSON.stringify(returnValueTest.value)} cannot be entered as an expected value`);
+  }
+
+  return block;
+};
+
+const validateJsonApi = (condition: TacoCondition) => {
+  const { endpoint, parameters, query, authorizationToken } = condition as JsonApiCondition;
+
+  if (!endpoint) throw new Error('URL is required');
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    throw new Error(`"${endpoint}" is not a URL`);
+  }
+  if (url.protocol !== 'https:') throw new Error('The URL must start with https://');
+
+  if (parameters && Object.keys(parameters).some(name => !name)) {
+    throw new Error('Query parameters are entered as name=value');
+  }
+  // Queries may also be a context variable supplied at decryption
+  if (query && !query.startsWith('$') && !isContextVariable(query)) {
+    throw new Error(`"${query}" is not a JSONPath query; queries start with $, e.g. $.price`);
+  }
+  // The token itself is never stored in the condition, only the variable it is supplied in
+  if (authorizationToken && !isContextVariable(authorizationToken)) {
+    throw new Error('The bearer token is supplied at decryption; enter the context variable holding it, e.g. :apiToken');
+  }
+
+  validateReturnValueTest(condition);
+};
+
+const codegenJsonApi = (condition: TacoCondition, varName: string): string[] => {
+  const { endpoint, parameters, query, authorizationToken, returnValueTest } = condition as JsonApiCondition;
+  const lines = [
+    `const ${varName} = new conditions.base.jsonApi.JsonApiCondition({`,
+    `  endpoint: '${endpoint}',`
+  ];
+  if (parameters && Object.keys(parameters).length > 0) lines.push(`  parameters: ${toCodeLiteral(parameters)},`);
+  if (query) lines.push(`  query: '${query}',`);
+  if (authorizationToken) lines.push(`  authorizationToken: '${authorizationToken}',`);
+  if (returnValueTest && 'value' in returnValueTest) {
+    lines.push(`  returnValueTest: { comparator: "${returnValueTest.comparator || '>='}", value: ${toCodeLiteral(returnValueTest.value)} },`);
+  }
+  lines.push('});');
+  return lines;
+};
+
+export const JSON_DEFINITIONS: BlockDefinition[] = [
+  {
+    id: 'json-rpc',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: "JSON RPC",
+    inputs: [
+      { id: 'endpoint', type: ['string'], label: 'Endpoint URI', inputType: 'text' },
+      { id: 'method', type: ['string'], label: 'Method Name', inputType: 'text' },
+      { id: 'param_0', type: ['string', 'uint256'], label: 'Parameter 1', inputType: 'text' },
+      { id: 'authorizationToken', type: ['string'], label: 'Authorization Token', inputType: 'text' },
+      { id: 'query', type: ['string'], label: 'JSON Path Query', inputType: 'text' },
+      { id: 'expectedValue', type: ['string', 'uint256'], label: 'Expected Value', inputType: 'text', valueType: 'bigint' },
+    ],
+    properties: {
+      conditionType: "json-rpc",
+      canAddParameters: true,
+      parameterCount: 1,
+      returnValueTest: {
+        comparator: '>=',
+        value: 0
+      }
+    },
+    matchesBlock: block => block.properties?.conditionType === 'json-rpc',
+    matchesCondition: condition => condition.conditionType === 'json-rpc',
+    compile: compileJsonRpc,
+    decompile: decompileJsonRpc,
+    validate: validateReturnValueTest,
+    toTacoCondition: condition => new conditions.base.jsonRpc.JsonRpcCondition(condition as JsonRpcCondition),
+    codegen: codegenJsonRpc
+  },
+  {
+    id: 'json-api',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'JSON API',
+    inputs: [
+      { id: 'endpoint', type: ['string'], label: 'URL', inputType: 'text', placeholder: 'https://api.example.com/price' },
+      { id: 'param_0', type: ['string', 'uint256'], label: 'Parameter 1', inputType: 'text', placeholder: 'name=value' },
+      { id: 'authorizationToken', type: ['string'], label: 'Bearer Token', inputType: 'text', placeholder: 'Context variable, e.g. :apiToken' },
+      { id: 'query', type: ['string'], label: 'JSON Path Query', inputType: 'text', placeholder: 'e.g. $.price' },
+      { id: 'expectedValue', type: ['string', 'uint256'], label: 'Expected Value', inputType: 'text', valueType: 'bigint' },
+    ],
+    properties: {
+      conditionType: 'json-api',
+      canAddParameters: true,
+      parameterCount: 1,
+      returnValueTest: {
+        comparator: '>=',
+        value: 0
+      }
+    },
+    matchesBlock: block => block.properties?.conditionType === 'json-api',
+    matchesCondition: condition => condition.conditionType === 'json-api',
+    compile: compileJsonApi,
+    decompile: decompileJsonApi,
+    validate: validateJsonApi,
+    toTacoCondition: condition => new conditions.base.jsonApi.JsonApiCondition(condition as JsonApiCondition),
+    codegen: codegenJsonApi
+  }
+];
@@ -0,0 +1,337 @@
+import { conditions } from '@nucypher/taco';
+import { Block, BlockInput, BLOCK_CATEGORIES, ValueKind } from '../BlockTypes';
+import type { BlockDefinition, CodegenContext, DecompileContext } from '../blockRegistry';
+import {
+  CompoundCondition,
+  ConditionVariable,
+  IfThenElseCondition,
+  SequentialCondition,
+  TacoCondition
+} from '../../../types/taco';
+import { asRecord } from '../blockHelpers';
+import { findContextVariables } from '../../../utils/contextVariables';
+import { ConditionRecord, findInput, validateCompound, codegenCompound } from './shared';
+
+// Operators
+
+const OPERATOR_SLOT_TYPES: ValueKind[] = ['condition'];
+
+const compileOperator = (block: Block, context: { compile: (block: Block) => TacoCondition | null }): TacoCondition | null => {
+  const operands = block.inputs
+    ?.filter(input => input.connected)
+    .map(input => context.compile(input.connected!))
+    .filter(Boolean) as TacoCondition[];
+
+  if (!operands?.length) return null;
+
+  return {
+    conditionType: 'compound',
+    operator: (block.properties?.operator || 'and') as 'and' | 'or' | 'not',
+    operands
+  } as CompoundCondition;
+};
+
+const decompileOperator = (definitionId: string) => (
+  condition: ConditionRecord,
+  path: string,
+  context: DecompileContext
+): Block | null => {
+  if (!Array.isArray(condition.operands)) {
+    context.reportUnmapped(`${path}.operands: missing or not an array`);
+    return null;
+  }
+
+  const block = context.createBlock(definitionId);
+
+  const connected = condition.operands
+    .map((operand, index) => context.decompile(operand, `${path}.operands[${index}]`))
+    .filter((operand): operand is Block => operand !== null);
+
+  setOperatorSlots(block, connected.map(operand => ({ connected: operand })));
+  return block;
+};
+
+// Connect decompiled blocks to an operator's slots
+const setOperatorSlots = (block: Block, slots: Pick<BlockInput, 'connected' | 'varName'>[]) => {
+  const stamp = Date.now();
+
+  block.inputs = slots.map((slot, index) => ({
+    id: `condition-${index + 1}-${stamp}`,
+    type: OPERATOR_SLOT_TYPES,
+    label: `Condition ${index + 1}`,
+    ...slot
+  }));
+
+  // Keep an empty slot for further drops, as the workspace does after each drop
+  const maxInputs = block.properties?.maxInputs;
+  if (!maxInputs || slots.length < maxInputs) {
+    block.inputs.push({
+      id: `condition-${slots.length + 1}-${stamp}`,
+      type: OPERATOR_SLOT_TYPES,
+      label: 'Add Condition'
+    });
+  }
+};
+
+const operatorDefinition = (
+  id: string,
+  label: string,
+  operator: 'and' | 'or' | 'not',
+  slotLabel: string,
+  maxInputs?: number
+): BlockDefinition => ({
+  id,
+  type: 'operator',
+  category: BLOCK_CATEGORIES.OPERATORS,
+  label,
+  inputs: [
+    { id: 'condition-1', type: OPERATOR_SLOT_TYPES, label: slotLabel }
+  ],
+  properties: {
+    conditionType: 'compound',
+    operator,
+    operands: [],
+    ...(maxInputs ? { maxInputs } : {})
+  },
+  matchesBlock: block => block.type === 'operator' && (block.properties?.operator || 'and') === operator,
+  matchesCondition: condition => condition.conditionType === 'compound' && condition.operator === operator,
+  compile: compileOperator,
+  decompile: decompileOperator(id),
+  validate: validateCompound,
+  toTacoCondition: condition => new conditions.compound.CompoundCondition(condition as CompoundCondition),
+  codegen: codegenCompound
+});
+
+// Sequential
+
+// TACo runs 2 to 5 steps in order
+const MIN_SEQUENTIAL_STEPS = 2;
+const MAX_SEQUENTIAL_STEPS = 5;
+// Step results are referenced as context variables, so their names follow the same rules
+const STEP_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+// Steps without a name are numbered in the order they run
+const getDefaultStepName = (index: number) => `step${index + 1}`;
+
+const compileSequential = (block: Block, context: { compile: (block: Block) => TacoCondition | null }): TacoCondition | null => {
+  const conditionVariables = (block.inputs || [])
+    .filter(input => input.connected)
+    .map((input, index) => ({
+      varName: input.varName?.trim() || getDefaultStepName(index),
+      condition: context.compile(input.connected!)
+    }))
+    .filter((step): step is ConditionVariable => step.condition !== null);
+
+  if (!conditionVariables.length) return null;
+
+  return { conditionType: 'sequential', conditionVariables };
+};
+
+const decompileSequential = (condition: ConditionRecord, path: string, context: DecompileContext): Block | null => {
+  if (!Array.isArray(condition.conditionVariables)) {
+    context.reportUnmapped(`${path}.conditionVariables: missing or not an array`);
+    return null;
+  }
+
+  const block = context.createBlock('sequential');
+
+  const steps = condition.conditionVariables.flatMap((variable, index) => {
+    const stepPath = `${path}.conditionVariables[${index}]`;
+    const record = asRecord(variable);
+    if (!record) {
+      context.reportUnmapped(`${stepPath}: not an object`);
+      return [];
+    }
+    const connected = context.decompile(record.condition, `${stepPath}.condition`);
+    if (!connected) return [];
+    return [{ connected, varName: typeof record.varName === 'string' ? record.varName : '' }];
+  });
+
+  setOperatorSlots(block, steps);
+  return block;
+};
+
+const validateSequential = (
+  condition: TacoCondition,
+  context: { validate: (condition: TacoCondition) => string | null }
+) => {
+  const { conditionVariables } = condition as SequentialCondition;
+  if (!Array.isArray(conditionVariables) || conditionVariables.length < MIN_SEQUENTIAL_STEPS) {
+    throw new Error(`A sequential condition needs at least ${MIN_SEQUENTIAL_STEPS} steps`);
+  }
+  if (conditionVariables.length > MAX_SEQUENTIAL_STEPS) {
+    throw new Error(`A sequential condition can have at most ${MAX_SEQUENTIAL_STEPS} steps`);
+  }
+
+  const names = conditionVariables.map(step => step.varName);
+  conditionVariables.forEach(({ varName, condition: step }, index) => {
+    if (!STEP_NAME_PATTERN.test(varName)) {
+      throw new Error(`Step ${index + 1}: "${varName}" is not a valid name; use letters, digits and underscores`);
+    }
+    if (names.indexOf(varName) !== index) {
+      throw new Error(`Step ${index + 1}: the name ${varName} is already used by step ${names.indexOf(varName) + 1}`);
+    }
+
+    // A step can only read the results of the steps before it
+    const ahead = findContextVariables(step)
+      .map(name => name.slice(1))
+      .find(name => names.indexOf(name) >= index);
+    if (ahead) {
+      const source = names.indexOf(ahead);
+      throw new Error(source === index
+        ? `Step ${index + 1} reads :${ahead}, its own result`
+        : `Step ${index + 1} reads :${ahead} before step ${source + 1} sets it`);
+    }
+
+    const error = context.validate(step);
+    if (error) throw new Error(`Step ${index + 1}: ${error}`);
+  });
+};
+
+const codegenSequential = (condition: TacoCondition, varName: string, context: CodegenContext): string[] => {
+  const { conditionVariables = [] } = condition as SequentialCondition;
+  const lines: string[] = [];
+
+  // Generate code for each step
+  conditionVariables.forEach((step, index) => {
+    lines.push(...context.generate(step.condition, `step${index + 1}`));
+    lines.push('');
+  });
+
+  lines.push(`const ${varName} = new conditions.sequential.SequentialCondition({`);
+  lines.push('  conditionVariables: [');
+  conditionVariables.forEach((step, index) => {
+    lines.push(`    { varName: "${step.varName}", condition: step${index + 1} },`);
+  });
+  lines.push('  ],');
+  lines.push('});');
+
+  return lines;
+};
+
+// If / Then / Else
+
+const IF_THEN_ELSE_SOCKETS = [
+  { id: 'ifCondition', label: 'If' },
+  { id: 'thenCondition', label: 'Then' },
+  { id: 'elseCondition', label: 'Else', placeholder: 'Else (leave empty to deny access)' }
+] as const;
+
+const compileIfThenElse = (block: Block, context: { compile: (block: Block) => TacoCondition | null }): TacoCondition | null => {
+  const [ifCondition, thenCondition, elseCondition] = IF_THEN_ELSE_SOCKETS.map(({ id }) => {
+    const connected = findInput(block, id)?.connected;
+    return connected ? context.compile(connected) : null;
+  });
+
+  if (!ifCondition && !thenCondition && !elseCondition) return null;
+
+  // An empty Else denies access when the If condition does not hold
+  return {
+    conditionType: 'if-then-else',
+    ifCondition,
+    thenCondition,
+    elseCondition: elseCondition ?? false
+  } as IfThenElseCondition;
+};
+
+const decompileIfThenElse = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('if-then-else');
+
+  IF_THEN_ELSE_SOCKETS.forEach(({ id }) => {
+    const branch = condition[id];
+    if (branch === false || branch === undefined) return;
+    if (branch === true) {
+      context.reportUnmapped(`${path}.${id}: always granting access has no block; the Else socket is left empty`);
+      return;
+    }
+
+    const input = findInput(block, id);
+    const connected = context.decompile(branch, `${path}.${id}`);
+    if (input && connected) input.connected = connected;
+  });
+
+  return block;
+};
+
+const validateIfThenElse = (
+  condition: TacoCondition,
+  context: { validate: (condition: TacoCondition) => string | null }
+) => {
+  const ifThenElse = condition as IfThenElseCondition;
+  if (!ifThenElse.ifCondition) throw new Error('Connect the condition to check to If');
+  if (!ifThenElse.thenCondition) throw new Error('Connect the condition that applies when it holds to Then');
+
+  IF_THEN_ELSE_SOCKETS.forEach(({ id, label }) => {
+    const branch = ifThenElse[id];
+    if (typeof branch === 'boolean') return;
+    const error = context.validate(branch);
+    if (error) throw new Error(`${label}: ${error}`);
+  });
+};
+
+const codegenIfThenElse = (condition: TacoCondition, varName: string, context: CodegenContext): string[] => {
+  const ifThenElse = condition as IfThenElseCondition;
+  const lines: string[] = [];
+
+  // Generate code for each branch; a boolean Else is written inline
+  IF_THEN_ELSE_SOCKETS.forEach(({ id }) => {
+    const branch = ifThenElse[id];
+    if (typeof branch === 'boolean') return;
+    lines.push(...context.generate(branch, id));
+    lines.push('');
+  });
+
+  lines.push(`const ${varName} = new conditions.ifThenElse.IfThenElseCondition({`);
+  lines.push('  ifCondition,');
+  lines.push('  thenCondition,');
+  lines.push(typeof ifThenElse.elseCondition === 'boolean'
+    ? `  elseCondition: ${ifThenElse.elseCondition},`
+    : '  elseCondition,');
+  lines.push('});');
+
+  return lines;
+};
+
+export const OPERATOR_DEFINITIONS: BlockDefinition[] = [
+  operatorDefinition('and-operator', 'AND', 'and', 'Add Condition'),
+  operatorDefinition('or-operator', 'OR', 'or', 'Add Condition'),
+  operatorDefinition('not-operator', 'NOT', 'not', 'Condition to Negate', 1),
+  {
+    id: 'sequential',
+    type: 'operator',
+    category: BLOCK_CATEGORIES.OPERATORS,
+    label: 'Sequential',
+    inputs: [
+      { id: 'condition-1', type: OPERATOR_SLOT_TYPES, label: 'Add Step' }
+    ],
+    properties: {
+      conditionType: 'sequential',
+      maxInputs: MAX_SEQUENTIAL_STEPS
+    },
+    matchesBlock: block => block.type === 'operator' && block.properties?.conditionType === 'sequential',
+    matchesCondition: condition => condition.conditionType === 'sequential',
+    compile: compileSequential,
+    decompile: decompileSequential,
+    validate: validateSequential,
+    toTacoCondition: condition => new conditions.sequential.SequentialCondition(condition as SequentialCondition),
+    codegen: codegenSequential
+  },
+  {
+    id: 'if-then-else',
+    type: 'operator',
+    category: BLOCK_CATEGORIES.OPERATORS,
+    label: 'If / Then / Else',
+    inputs: IF_THEN_ELSE_SOCKETS.map(socket => ({ ...socket, type: OPERATOR_SLOT_TYPES })),
+    properties: {
+      conditionType: 'if-then-else',
+      fixedInputs: true
+    },
+    matchesBlock: block => block.type === 'operator' && block.properties?.conditionType === 'if-then-else',
+    matchesCondition: condition => condition.conditionType === 'if-then-else',
+    compile: compileIfThenElse,
+    decompile: decompileIfThenElse,
+    validate: validateIfThenElse,
+    toTacoCondition: condition => new conditions.ifThenElse.IfThenElseCondition(condition as IfThenElseCondition),
+    codegen: codegenIfThenElse
+  }
+];
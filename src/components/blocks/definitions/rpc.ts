@@ -0,0 +1,158 @@
+import { conditions } from '@nucypher/taco';
+import { Block, BLOCK_CATEGORIES } from '../BlockTypes';
+import type { BlockDefinition, DecompileContext } from '../blockRegistry';
+import { Comparator, RpcCondition, TacoCondition } from '../../../types/taco';
+import { decompileReturnValueTest, isNumericValue, parseChainId, setInputValue } from '../blockHelpers';
+import { fromBaseUnits, isIntegerString, NATIVE_UNITS, toLargestNativeUnit } from '../../../utils/units';
+import {
+  ConditionRecord,
+  toCodeLiteral,
+  chainLine,
+  findInput,
+  compileAmount,
+  isIntegerOrContextValue,
+  setInputUnit,
+  validateReturnValueTest,
+  checksumParameters
+} from './shared';
+
+// RPC (native balance)
+
+const compileRpc = (block: Block): TacoCondition => {
+  const rpcCondition: RpcCondition = {
+    conditionType: 'rpc',
+    chain: 11155111, // Default to Sepolia
+    method: 'eth_getBalance',
+    parameters: [':userAddress', 'latest'] as [string, 'latest'],
+    returnValueTest: {
+      comparator: '>=',
+      value: '0'
+    }
+  };
+
+  // Add chain ID if present
+  const chainInput = findInput(block, 'chain');
+  if (chainInput?.value !== undefined) {
+    // Even if the value is empty, we want to process it through parseChainId
+    rpcCondition.chain = parseChainId(chainInput.value);
+  }
+
+  // Add method if present in properties
+  if (block.properties?.method) {
+    rpcCondition.method = block.properties.method as 'eth_getBalance';
+  }
+
+  // Add parameters if present in properties
+  if (block.properties?.parameters) {
+    rpcCondition.parameters = checksumParameters(block.properties.parameters as string[]) as [string, 'latest'];
+  }
+
+  // Add balance test if present
+  const balanceInput = findInput(block, 'minBalance');
+  if (balanceInput?.value) {
+    rpcCondition.returnValueTest = {
+      comparator: (balanceInput.comparator || '>=') as Comparator,
+      value: compileAmount(block, balanceInput)
+    };
+  }
+
+  return rpcCondition;
+};
+
+const decompileRpc = (condition: ConditionRecord, path: string, context: DecompileContext): Block | null => {
+  if (condition.method !== 'eth_getBalance') {
+    context.reportUnmapped(`${path}.method: unsupported RPC method ${JSON.stringify(condition.method)}`);
+    return null;
+  }
+
+  const block = context.createBlock('eth-balance');
+  setInputValue(block, 'chain', String(condition.chain ?? ''));
+
+  if (Array.isArray(condition.parameters)) {
+    block.properties = { ...block.properties, parameters: [...condition.parameters] };
+  }
+
+  const returnValueTest = decompileReturnValueTest(condition, path, context.reportUnmapped);
+  if (returnValueTest) {
+    const wei = String(returnValueTest.value);
+    if (isIntegerString(wei)) {
+      // Show the amount in the largest unit that keeps it exact
+      const { unit, amount } = toLargestNativeUnit(wei);
+      setInputValue(block, 'minBalance', amount, returnValueTest.comparator);
+      setInputUnit(block, 'minBalance', unit);
+    } else if (isNumericValue(returnValueTest.value)) {
+      setInputValue(block, 'minBalance', wei, returnValueTest.comparator);
+      setInputUnit(block, 'minBalance', 'wei');
+    } else {
+      context.reportUnmapped(`${path}.returnValueTest.value: ${JSON.stringify(returnValueTest.value)} is not a wei amount`);
+    }
+  }
+
+  return block;
+};
+
+const validateRpc = (condition: TacoCondition) => {
+  validateReturnValueTest(condition);
+  const { method, parameters } = condition as RpcCondition;
+  if (method !== 'eth_getBalance') {
+    throw new Error(`Unsupported RPC method: ${method}`);
+  }
+  if (!Array.isArray(parameters) || parameters.length !== 2 ||
+      parameters[0] !== ':userAddress' || parameters[1] !== 'latest') {
+    throw new Error('eth_getBalance must be called with [":userAddress", "latest"]');
+  }
+  if (!isIntegerOrContextValue((condition as RpcCondition).returnValueTest?.value)) {
+    throw new Error('Balance must be a whole number of wei');
+  }
+};
+
+const codegenRpc = (condition: TacoCondition, varName: string): string[] => {
+  const { chain, method, parameters, returnValueTest } = condition as RpcCondition;
+  const lines = [
+    `const ${varName} = new conditions.base.rpc.RpcCondition({`,
+    chainLine(chain),
+    `  method: "${method}",`
+  ];
+  if (parameters) lines.push(`  parameters: ${toCodeLiteral(parameters)},`);
+  if (returnValueTest) {
+    // Show the wei amount in ETH alongside the exact value
+    const wei = String(returnValueTest.value);
+    const comment = isIntegerString(wei) ? `  // ${fromBaseUnits(wei, 18)} ETH` : '';
+    lines.push(`  returnValueTest: ${toCodeLiteral(returnValueTest)},${comment}`);
+  }
+  lines.push('});');
+  return lines;
+};
+
+export const RPC_DEFINITIONS: BlockDefinition[] = [
+  {
+    id: 'eth-balance',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'ETH Balance',
+    inputs: [
+      { id: 'chain', type: ['chainId'], label: 'Chain ID', inputType: 'number' },
+      {
+        id: 'minBalance',
+        type: ['uint256'],
+        label: 'Min Balance',
+        inputType: 'text',
+        placeholder: 'e.g. 0.01',
+        units: NATIVE_UNITS,
+        unit: 'ether'
+      },
+    ],
+    properties: {
+      conditionType: 'rpc',
+      method: 'eth_getBalance',
+      parameters: [':userAddress', 'latest'],
+    },
+    matchesBlock: block => block.properties?.conditionType === 'rpc',
+    matchesCondition: condition => condition.conditionType === 'rpc',
+    compile: compileRpc,
+    decompile: decompileRpc,
+    validate: validateRpc,
+    toTacoCondition: condition => new conditions.base.rpc.RpcCondition(condition as RpcCondition),
+    codegen: codegenRpc
+  }
+];
@@ -0,0 +1,160 @@
+import { Block, BlockInput } from '../BlockTypes';
+import type { CodegenContext } from '../blockRegistry';
+import { BaseCondition, CompoundCondition, ReturnValue, ReturnValueTest, TacoCondition } from '../../../types/taco';
+import { convertAmountInput, isNumericString, toChecksumAddress } from '../blockHelpers';
+import { isIntegerString, toConditionInteger } from '../../../utils/units';
+import { checkComparator, describeReturnValue, parseReturnValue } from '../../../utils/returnValues';
+
+export type ConditionRecord = Record<string, unknown>;
+
+// Helper function to get chain name from chain ID
+export const getChainName = (chainId: number): string => {
+  const chains: Record<number, string> = {
+    1: 'ethereum mainnet',
+    5: 'goerli',
+    11155111: 'sepolia',
+    137: 'polygon',
+    80001: 'mumbai',
+    80002: 'polygon amoy',
+    42161: 'arbitrum',
+    421613: 'arbitrum goerli',
+    10: 'optimism',
+    420: 'optimism goerli',
+    56: 'bnb chain',
+    97: 'bnb testnet',
+    43114: 'avalanche',
+    43113: 'fuji'
+  };
+
+  return chains[chainId] || 'custom network';
+};
+
+// Render a JSON value as a TypeScript literal (unquoted keys, single-quoted strings)
+export const toCodeLiteral = (value: unknown): string =>
+  JSON.stringify(value)
+    .replace(/"([^"]+)":/g, '$1:')
+    .replace(/"/g, '\'');
+
+export const chainLine = (chain: number | undefined): string =>
+  `  chain: ${chain || 11155111},  // ${getChainName(chain || 11155111)}`;
+
+export const findInput = (block: Block, inputId: string) => block.inputs?.find(input => input.id === inputId);
+
+// Integers are kept exact: numbers while safe, decimal strings beyond that
+export const compileInteger = (value: string): number | string =>
+  isIntegerString(value) ? toConditionInteger(value) : value.trim();
+
+// Amounts entered in a unit are converted exactly to base units; invalid amounts are kept as typed for the validator to flag
+export const compileAmount = (block: Block, input: BlockInput): number | string => {
+  const conversion = convertAmountInput(block, input);
+  if (conversion?.baseUnits) return toConditionInteger(conversion.baseUnits);
+  return compileInteger(input.value || '');
+};
+
+// Whether a returnValueTest value is a whole base-unit amount or a context variable
+export const isIntegerOrContextValue = (value: unknown): boolean =>
+  (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) ||
+  (typeof value === 'string' && (isIntegerString(value) || value.startsWith(':')));
+
+export const setInputUnit = (block: Block, inputId: string, unit: BlockInput['unit']) => {
+  const input = findInput(block, inputId);
+  if (input) input.unit = unit;
+};
+
+// Typed expected values are parsed per their type; invalid text is kept as typed and flagged on the block
+export const compileReturnValue = (input: BlockInput): ReturnValue => {
+  const text = input.value || '';
+  if (!input.valueType) {
+    // Inputs saved before value types were numbers when they looked numeric
+    return isIntegerString(text) ? toConditionInteger(text) : isNumericString(text) ? Number(text) : text;
+  }
+
+  try {
+    return parseReturnValue(text, input.valueType);
+  } catch {
+    return text;
+  }
+};
+
+// Fill an expected value input from an existing returnValueTest; returns false when the value cannot be typed in
+export const decompileExpectedValue = (block: Block, returnValueTest: ReturnValueTest): boolean => {
+  const input = findInput(block, 'expectedValue');
+  const described = describeReturnValue(returnValueTest.value);
+  if (!input || !described) return false;
+
+  input.value = described.text;
+  input.valueType = described.type;
+  input.comparator = returnValueTest.comparator;
+  return true;
+};
+
+// Every leaf condition compares its result, and the comparator has to suit the value
+export const validateReturnValueTest = (condition: TacoCondition) => {
+  const { returnValueTest } = condition as BaseCondition;
+  if (!returnValueTest) throw new Error('A return value test is required');
+
+  const error = checkComparator(returnValueTest.comparator, returnValueTest.value);
+  if (error) throw new Error(error);
+};
+
+// Convert any Ethereum addresses in parameters to checksum format, skipping context variables like :userAddress
+export const checksumParameters = <T>(parameters: T[]): T[] =>
+  parameters.map(param => {
+    if (typeof param === 'string' && !param.startsWith(':') && /^(0x)?[0-9a-fA-F]{40}$/.test(param)) {
+      return toChecksumAddress(param) as T;
+    }
+    return param;
+  });
+
+// Compound conditions (AND/OR/NOT, and the blocks that compile to them)
+export const validateCompound = (
+  condition: TacoCondition,
+  context: { validate: (condition: TacoCondition) => string | null }
+) => {
+  const compound = condition as CompoundCondition;
+  if (!compound.operator || !Array.isArray(compound.operands)) {
+    throw new Error('Compound condition needs an operator and operands');
+  }
+  // Validate each operand recursively
+  compound.operands.forEach(operand => {
+    const error = context.validate(operand);
+    if (error) throw new Error(error);
+  });
+};
+
+export const codegenCompound = (condition: TacoCondition, varName: string, context: CodegenContext): string[] => {
+  const { operator, operands } = condition as CompoundCondition;
+  const lines: string[] = [];
+
+  if (operands && Array.isArray(operands) && operands.length > 0) {
+    // Generate code for each operand
+    const operandVars: string[] = [];
+
+    operands.forEach((operand, index) => {
+      const operandVarName = `operand${index + 1}`;
+      operandVars.push(operandVarName);
+
+      // Recursively format each operand
+      lines.push(...context.generate(operand, operandVarName));
+      lines.push(''); // Add a blank line between operands
+    });
+
+    // Now create the compound condition with all operands
+    lines.push(`const ${varName} = new conditions.compound.CompoundCondition({`);
+    lines.push(`  operator: "${operator}",`);
+    lines.push('  operands: [');
+    operandVars.forEach(operandVar => {
+      lines.push(`    ${operandVar},`);
+    });
+    lines.push('  ],');
+    lines.push('});');
+  } else {
+    // Empty compound condition
+    lines.push(`const ${varName} = new conditions.compound.CompoundCondition({`);
+    lines.push(`  operator: "${operator}",`);
+    lines.push('  operands: [],');
+    lines.push('});');
+  }
+
+  return lines;
+};
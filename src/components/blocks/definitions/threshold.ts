@@ -0,0 +1,238 @@
+import { utils } from 'ethers';
+import { Block, BLOCK_CATEGORIES } from '../BlockTypes';
+import type { BlockDefinition, DecompileContext } from '../blockRegistry';
+import { Comparator, ContractCondition, FunctionAbi, TacoCondition } from '../../../types/taco';
+import {
+  asRecord,
+  decompileReturnValueTest,
+  isNumericValue,
+  parseChainId,
+  setInputValue,
+  toChecksumAddress
+} from '../blockHelpers';
+import { fromBaseUnits, isIntegerString, T_UNITS } from '../../../utils/units';
+import {
+  ConditionRecord,
+  getChainName,
+  findInput,
+  compileAmount,
+  isIntegerOrContextValue,
+  setInputUnit
+} from './shared';
+import { isContract, contractParameters, validateContract, toContractCondition, codegenContract } from './contracts';
+
+// Threshold Network
+
+// TACo application contracts from the @nucypher/nucypher-contracts deployments: the root application on
+// Ethereum, its child on Polygon, and the tapir (TESTNET) deployment on Sepolia and Amoy
+const TACO_APPLICATIONS: Record<number, string> = {
+  1: '0x347CC7ede7e5517bD47D20620B2CF1b406edcF07',
+  137: '0xFa07aaB78062Fac4C36995bF28F6D677667973F5',
+  11155111: '0xCcFf527698E78a536d80695D9Af4F4f3265ADA05',
+  80002: '0x489287Ed5BdF7a35fEE411FBdCc47331093D0769'
+};
+
+// Subscription managers, which only exist on Polygon. They record the TACo policies that have been paid for,
+// keyed by their 16-byte policy ID rather than by any wallet address
+const SUBSCRIPTION_MANAGERS: Record<number, string> = {
+  137: '0xB0194073421192F6Cf38d72c791Be8729721A0b3',
+  80002: '0x811389558a2C0B65ff56652d5E5bBF5DbC9A4358'
+};
+
+const AUTHORIZED_STAKE_ABI: FunctionAbi = {
+  type: 'function',
+  name: 'authorizedStake',
+  inputs: [{ name: '_stakingProvider', type: 'address', internalType: 'address' }],
+  outputs: [{ name: '', type: 'uint96', internalType: 'uint96' }],
+  stateMutability: 'view'
+};
+
+const IS_POLICY_ACTIVE_ABI: FunctionAbi = {
+  type: 'function',
+  name: 'isPolicyActive',
+  inputs: [{ name: '_policyID', type: 'bytes16', internalType: 'bytes16' }],
+  outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+  stateMutability: 'view'
+};
+
+const describeDeployments = (deployments: Record<number, string>): string =>
+  Object.keys(deployments).map(chain => `${chain} (${getChainName(Number(chain))})`).join(', ');
+
+// Blocks on a chain without a deployment compile without a contract address, and are still claimed so that
+// validation can name the supported chains
+const isDeployedContract = (deployments: Record<number, string>, method: string) => (condition: ConditionRecord) =>
+  isContract(condition) &&
+  !condition.standardContractType &&
+  condition.method === method &&
+  asRecord(condition.functionAbi)?.name === method &&
+  typeof condition.chain === 'number' &&
+  condition.contractAddress === (deployments[condition.chain] ?? '');
+
+const isThresholdStake = isDeployedContract(TACO_APPLICATIONS, 'authorizedStake');
+const isSubscriptionPayment = isDeployedContract(SUBSCRIPTION_MANAGERS, 'isPolicyActive');
+
+const validateDeployment = (condition: TacoCondition, deployments: Record<number, string>, contractName: string) => {
+  const { chain } = condition as ContractCondition;
+  if (!deployments[chain]) {
+    throw new Error(`The ${contractName} is not deployed on chain ${chain}; use ${describeDeployments(deployments)}`);
+  }
+  validateContract(condition);
+};
+
+const compileThresholdStake = (block: Block): ContractCondition => {
+  const chain = parseChainId(findInput(block, 'chain')?.value || '');
+  const stakingProvider = findInput(block, 'stakingProvider')?.value?.trim() || '';
+  const amountInput = findInput(block, 'tokenAmount');
+  return {
+    conditionType: 'contract',
+    chain,
+    contractAddress: TACO_APPLICATIONS[chain] || '',
+    method: 'authorizedStake',
+    functionAbi: AUTHORIZED_STAKE_ABI,
+    parameters: [stakingProvider.startsWith(':') ? stakingProvider : toChecksumAddress(stakingProvider)],
+    returnValueTest: {
+      comparator: (amountInput?.comparator || '>=') as Comparator,
+      value: amountInput ? compileAmount(block, amountInput) : 0
+    }
+  };
+};
+
+const decompileThresholdStake = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('threshold-stake');
+  setInputValue(block, 'chain', String(condition.chain ?? ''));
+  setInputValue(block, 'stakingProvider', String(contractParameters(condition)[0] ?? ''));
+
+  const returnValueTest = decompileReturnValueTest(condition, path, context.reportUnmapped);
+  if (returnValueTest && isNumericValue(returnValueTest.value) && isIntegerString(String(returnValueTest.value))) {
+    // Stakes are shown in T, the unit the block is created with
+    setInputValue(block, 'tokenAmount', fromBaseUnits(String(returnValueTest.value), 18), returnValueTest.comparator);
+  } else if (returnValueTest) {
+    setInputValue(block, 'tokenAmount', String(returnValueTest.value), returnValueTest.comparator);
+    setInputUnit(block, 'tokenAmount', 'base');
+  }
+  return block;
+};
+
+const validateThresholdStake = (condition: TacoCondition) => {
+  validateDeployment(condition, TACO_APPLICATIONS, 'TACo application');
+  if (!isIntegerOrContextValue((condition as ContractCondition).returnValueTest?.value)) {
+    throw new Error('Stake must be a whole number of base units');
+  }
+};
+
+const codegenThresholdStake = (condition: TacoCondition, varName: string): string[] => [
+  '// Stake the staking provider has authorized for the TACo application, in T base units (18 decimals)',
+  ...codegenContract(condition, varName)
+];
+
+const compileSubscriptionPayment = (block: Block): ContractCondition => {
+  const chain = parseChainId(findInput(block, 'chain')?.value || '');
+  return {
+    conditionType: 'contract',
+    chain,
+    contractAddress: SUBSCRIPTION_MANAGERS[chain] || '',
+    method: 'isPolicyActive',
+    functionAbi: IS_POLICY_ACTIVE_ABI,
+    parameters: [findInput(block, 'policyId')?.value?.trim() || ''],
+    returnValueTest: { comparator: '==', value: true }
+  };
+};
+
+const decompileSubscriptionPayment = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('subscription-payment');
+  setInputValue(block, 'chain', String(condition.chain ?? ''));
+  setInputValue(block, 'policyId', String(contractParameters(condition)[0] ?? ''));
+
+  // The block always checks that the policy is active
+  const returnValueTest = decompileReturnValueTest(condition, path, context.reportUnmapped);
+  if (returnValueTest && (returnValueTest.comparator !== '==' || returnValueTest.value !== true)) {
+    context.reportUnmapped(`${path}.returnValueTest: only "== true" is supported for subscription payments`);
+  }
+  return block;
+};
+
+const validateSubscriptionPayment = (condition: TacoCondition) => {
+  const policyId = (condition as ContractCondition).parameters?.[0];
+  if (!policyId) throw new Error('Policy ID is required');
+  if (typeof policyId === 'string' && !policyId.startsWith(':') && !utils.isHexString(policyId, 16)) {
+    throw new Error(`${policyId} is not a policy ID; policy IDs are 16 bytes of hex (0x and 32 hex digits)`);
+  }
+  validateDeployment(condition, SUBSCRIPTION_MANAGERS, 'subscription manager');
+};
+
+const codegenSubscriptionPayment = (condition: TacoCondition, varName: string): string[] => [
+  '// Whether the policy has been paid for in the subscription manager and has not expired',
+  ...codegenContract(condition, varName)
+];
+
+export const THRESHOLD_DEFINITIONS: BlockDefinition[] = [
+  {
+    id: 'threshold-stake',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'Threshold Stake',
+    inputs: [
+      { id: 'stakingProvider', type: ['address'], label: 'Staking Provider', value: ':userAddress' },
+      {
+        id: 'chain',
+        type: ['chainId'],
+        label: 'Chain ID',
+        inputType: 'number',
+        value: '1',
+        placeholder: describeDeployments(TACO_APPLICATIONS)
+      },
+      {
+        id: 'tokenAmount',
+        type: ['uint256'],
+        label: 'Min Authorized Stake',
+        inputType: 'text',
+        value: '40000',
+        units: T_UNITS,
+        unit: 'T'
+      },
+    ],
+    properties: {
+      conditionType: 'contract',
+      method: 'authorizedStake'
+    },
+    matchesCondition: isThresholdStake,
+    compile: compileThresholdStake,
+    decompile: decompileThresholdStake,
+    validate: validateThresholdStake,
+    toTacoCondition: toContractCondition,
+    codegen: codegenThresholdStake
+  },
+  {
+    id: 'subscription-payment',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'Active Policy (Subscription Manager)',
+    inputs: [
+      {
+        id: 'policyId',
+        type: ['string'],
+        label: 'Policy ID (bytes16)',
+        inputType: 'text',
+        placeholder: '0x and 32 hex digits, or e.g. :policyId'
+      },
+      {
+        id: 'chain',
+        type: ['chainId'],
+        label: `Chain ID: ${describeDeployments(SUBSCRIPTION_MANAGERS)}`,
+        inputType: 'number',
+        value: '137',
+        placeholder: describeDeployments(SUBSCRIPTION_MANAGERS)
+      },
+    ],
+    properties: {
+      conditionType: 'contract',
+      method: 'isPolicyActive'
+    },
+    matchesCondition: isSubscriptionPayment,
+    compile: compileSubscriptionPayment,
+    decompile: decompileSubscriptionPayment,
+    validate: validateSubscriptionPayment,
+    toTacoCondition: toContractCondition,
+    codegen: codegenSubscriptionPayment
+  }
+];
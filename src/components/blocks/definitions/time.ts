@@ -0,0 +1,219 @@
+import { conditions } from '@nucypher/taco';
+import { Block, BLOCK_CATEGORIES } from '../BlockTypes';
+import type { BlockDefinition, CodegenContext, DecompileContext } from '../blockRegistry';
+import { Comparator, CompoundCondition, TacoCondition, TimeCondition } from '../../../types/taco';
+import { asRecord, decompileReturnValueTest, isNumericValue, parseChainId, setInputValue } from '../blockHelpers';
+import {
+  ConditionRecord,
+  toCodeLiteral,
+  chainLine,
+  findInput,
+  compileInteger,
+  validateReturnValueTest,
+  validateCompound,
+  codegenCompound
+} from './shared';
+
+// Time
+
+const compileTime = (block: Block): TacoCondition => {
+  const timeCondition: TimeCondition = {
+    conditionType: 'time',
+    chain: 11155111, // Default to Sepolia
+    method: 'blocktime',
+    returnValueTest: {
+      comparator: '>=',
+      value: 0
+    }
+  };
+
+  // Add chain ID if present
+  const chainInput = findInput(block, 'chain');
+  if (chainInput?.value !== undefined) {
+    // Even if the value is empty, we want to process it through parseChainId
+    // which will handle empty values appropriately
+    timeCondition.chain = parseChainId(chainInput.value);
+  }
+
+  // Add timestamp if present
+  const timestampInput = findInput(block, 'minTimestamp');
+  if (timestampInput?.value) {
+    timeCondition.returnValueTest = {
+      comparator: (timestampInput.comparator || '>=') as Comparator,
+      value: compileInteger(timestampInput.value)
+    };
+  }
+
+  return timeCondition;
+};
+
+const decompileTime = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('timestamp');
+  setInputValue(block, 'chain', String(condition.chain ?? ''));
+
+  const returnValueTest = decompileReturnValueTest(condition, path, context.reportUnmapped);
+  if (returnValueTest) {
+    if (isNumericValue(returnValueTest.value)) {
+      setInputValue(block, 'minTimestamp', String(returnValueTest.value), returnValueTest.comparator);
+    } else {
+      context.reportUnmapped(`${path}.returnValueTest.value: ${JSON.stringify(returnValueTest.value)} is not a timestamp`);
+    }
+  }
+
+  return block;
+};
+
+const compileTimeBound = (chain: number, comparator: Comparator, value: string): TimeCondition => ({
+  conditionType: 'time',
+  chain,
+  method: 'blocktime',
+  returnValueTest: { comparator, value: compileInteger(value) }
+});
+
+// A window with one bound is a single time condition; with both (or neither, for validation to report) it is
+// an AND of the opening and closing bounds
+const compileTimeWindow = (block: Block): TacoCondition => {
+  const chain = parseChainId(findInput(block, 'chain')?.value || '');
+  const opensAt = findInput(block, 'opensAt')?.value?.trim() || '';
+  const closesAt = findInput(block, 'closesAt')?.value?.trim() || '';
+
+  if (opensAt && !closesAt) return compileTimeBound(chain, '>=', opensAt);
+  if (closesAt && !opensAt) return compileTimeBound(chain, '<=', closesAt);
+
+  return {
+    conditionType: 'compound',
+    operator: 'and',
+    operands: [compileTimeBound(chain, '>=', opensAt), compileTimeBound(chain, '<=', closesAt)]
+  } as CompoundCondition;
+};
+
+const isTimeBound = (condition: unknown, comparator: Comparator) => {
+  const record = asRecord(condition);
+  return record?.conditionType === 'time' &&
+    record.method === 'blocktime' &&
+    asRecord(record.returnValueTest)?.comparator === comparator;
+};
+
+const isTimeWindow = (condition: ConditionRecord) => {
+  if (condition.conditionType !== 'compound' || condition.operator !== 'and' || !Array.isArray(condition.operands)) {
+    return false;
+  }
+  const [opening, closing] = condition.operands as ConditionRecord[];
+  return condition.operands.length === 2 &&
+    isTimeBound(opening, '>=') &&
+    isTimeBound(closing, '<=') &&
+    opening.chain === closing.chain;
+};
+
+// Conditions carry no time zone, so windows come back in UTC
+const decompileTimeWindow = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('time-window');
+  const [opening, closing] = condition.operands as ConditionRecord[];
+  setInputValue(block, 'chain', String(opening.chain ?? ''));
+  setInputValue(block, 'opensAt', String(asRecord(opening.returnValueTest)?.value ?? ''));
+  setInputValue(block, 'closesAt', String(asRecord(closing.returnValueTest)?.value ?? ''));
+  return block;
+};
+
+const validateTimeWindow = (
+  condition: TacoCondition,
+  context: { validate: (condition: TacoCondition) => string | null }
+) => {
+  const [opening, closing] = (condition as CompoundCondition).operands as TimeCondition[];
+  const opensAt = opening.returnValueTest.value;
+  const closesAt = closing.returnValueTest.value;
+  if (opensAt === '' && closesAt === '') {
+    throw new Error('Set when the time window opens, closes, or both');
+  }
+  if (isNumericValue(opensAt) && isNumericValue(closesAt) && Number(closesAt) <= Number(opensAt)) {
+    throw new Error('The time window has to close after it opens');
+  }
+  validateCompound(condition, context);
+};
+
+const codegenTimeWindow = (condition: TacoCondition, varName: string, context: CodegenContext): string[] => {
+  const toDate = (bound: TacoCondition) => {
+    const { value } = (bound as TimeCondition).returnValueTest;
+    return isNumericValue(value) ? new Date(Number(value) * 1000).toISOString() : String(value);
+  };
+  const [opening, closing] = (condition as CompoundCondition).operands;
+  return [
+    `// Open from ${toDate(opening)} until ${toDate(closing)}`,
+    ...codegenCompound(condition, varName, context)
+  ];
+};
+
+const codegenTime = (condition: TacoCondition, varName: string): string[] => {
+  const { chain, returnValueTest } = condition as TimeCondition;
+  const lines = [
+    `const ${varName} = new conditions.base.time.TimeCondition({`,
+    chainLine(chain)
+  ];
+  if (returnValueTest && 'value' in returnValueTest) {
+    lines.push(`  returnValueTest: { comparator: "${returnValueTest.comparator || '>='}", value: ${toCodeLiteral(returnValueTest.value)} },`);
+  }
+  lines.push('});');
+  return lines;
+};
+
+export const TIME_DEFINITIONS: BlockDefinition[] = [
+  {
+    id: 'timestamp',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'Time Lock',
+    inputs: [
+      {
+        id: 'chain',
+        type: ['chainId'],
+        label: 'Chain ID',
+        inputType: 'number',
+        placeholder: 'Enter any valid chain ID'
+      },
+      {
+        id: 'minTimestamp',
+        type: ['timestamp'],
+        label: 'Minimum Timestamp',
+        inputType: 'number',
+        placeholder: 'Unix timestamp in seconds'
+      },
+    ],
+    properties: {
+      conditionType: 'time'
+    },
+    matchesBlock: block => block.properties?.conditionType === 'time',
+    matchesCondition: condition => condition.conditionType === 'time',
+    compile: compileTime,
+    decompile: decompileTime,
+    validate: validateReturnValueTest,
+    toTacoCondition: condition => new conditions.base.time.TimeCondition(condition as TimeCondition),
+    codegen: codegenTime
+  },
+  {
+    id: 'time-window',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'Time Window',
+    inputs: [
+      { id: 'opensAt', type: ['timestamp'], label: 'Opens At', placeholder: 'Date, timestamp or now + 1d' },
+      { id: 'closesAt', type: ['timestamp'], label: 'Closes At', placeholder: 'Date, timestamp or now + 7d' },
+      { id: 'timeZone', type: ['string'], label: 'Time Zone', value: 'UTC' },
+      {
+        id: 'chain',
+        type: ['chainId'],
+        label: 'Chain ID',
+        inputType: 'number',
+        placeholder: 'Enter any valid chain ID'
+      },
+    ],
+    properties: {
+      conditionType: 'time'
+    },
+    matchesCondition: isTimeWindow,
+    compile: compileTimeWindow,
+    decompile: decompileTimeWindow,
+    validate: validateTimeWindow,
+    toTacoCondition: condition => new conditions.compound.CompoundCondition(condition as CompoundCondition),
+    codegen: codegenTimeWindow
+  }
+];
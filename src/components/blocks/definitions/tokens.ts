@@ -0,0 +1,367 @@
+import { conditions } from '@nucypher/taco';
+import { USER_ADDRESS_PARAM_EXTERNAL_EIP4361 } from '@nucypher/taco-auth';
+import { Block, BLOCK_CATEGORIES } from '../BlockTypes';
+import type { BlockDefinition, DecompileContext } from '../blockRegistry';
+import { Comparator, CompoundCondition, ContractCondition, TacoCondition } from '../../../types/taco';
+import {
+  asRecord,
+  decompileReturnValueTest,
+  isNumericValue,
+  parseChainId,
+  setInputValue,
+  toChecksumAddress
+} from '../blockHelpers';
+import { TOKEN_UNITS } from '../../../utils/units';
+import { findContextVariables } from '../../../utils/contextVariables';
+import {
+  ConditionRecord,
+  toCodeLiteral,
+  chainLine,
+  findInput,
+  compileInteger,
+  isIntegerOrContextValue,
+  setInputUnit,
+  validateCompound,
+  codegenCompound
+} from './shared';
+import {
+  isErc20Balance,
+  isErc721Balance,
+  isErc721Ownership,
+  ERC1155_BALANCE_OF_ABI,
+  isErc1155Balance,
+  hasContractProperties,
+  compileContract,
+  decompileContractTarget,
+  contractParameters,
+  validateContract,
+  toContractCondition,
+  codegenContract
+} from './contracts';
+
+// ERC20 and ERC721
+
+const decompileTokenBalance = (definitionId: string) => (
+  condition: ConditionRecord,
+  path: string,
+  context: DecompileContext
+): Block => {
+  const block = context.createBlock(definitionId);
+  block.properties = { ...block.properties, parameters: contractParameters(condition) };
+
+  const returnValueTest = decompileReturnValueTest(condition, path, context.reportUnmapped);
+  if (returnValueTest) {
+    if (isNumericValue(returnValueTest.value)) {
+      setInputValue(block, 'tokenAmount', String(returnValueTest.value), returnValueTest.comparator);
+      // The token's decimals are not part of the condition, so amounts come back in base units
+      if (findInput(block, 'tokenAmount')?.units) {
+        setInputUnit(block, 'tokenAmount', 'base');
+      }
+    } else {
+      block.properties.returnValueTest = returnValueTest;
+    }
+  }
+
+  return decompileContractTarget(block, condition);
+};
+
+const decompileErc721Ownership = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('erc721-ownership');
+  const parameters = contractParameters(condition);
+  block.properties = { ...block.properties, parameters };
+
+  // Numeric token IDs go into the input; anything else (e.g. a context variable) stays in the parameters
+  if (parameters.length === 1 && isNumericValue(parameters[0])) {
+    setInputValue(block, 'tokenId', String(parameters[0]));
+  }
+
+  const returnValueTest = decompileReturnValueTest(condition, path, context.reportUnmapped);
+  if (returnValueTest) {
+    block.properties.returnValueTest = returnValueTest;
+  }
+
+  return decompileContractTarget(block, condition);
+};
+
+
+const validateTokenBalance = (condition: TacoCondition) => {
+  validateContract(condition);
+  if (!isIntegerOrContextValue((condition as ContractCondition).returnValueTest?.value)) {
+    throw new Error('Token amount must be a whole number of base units');
+  }
+};
+
+
+// The predefined classes always read :userAddress
+const readsExternalUserAddress = (condition: TacoCondition): boolean =>
+  findContextVariables(condition).includes(USER_ADDRESS_PARAM_EXTERNAL_EIP4361);
+
+const codegenErc20Balance = (condition: TacoCondition, varName: string): string[] => {
+  if (readsExternalUserAddress(condition)) return codegenContract(condition, varName);
+  const { chain, contractAddress, returnValueTest } = condition as ContractCondition;
+  const lines = [
+    `const ${varName} = new conditions.predefined.erc20.ERC20Balance({`,
+    `  contractAddress: '${contractAddress || '0x0000000000000000000000000000000000000000'}',`
+  ];
+  if (returnValueTest && 'value' in returnValueTest) {
+    lines.push(`  returnValueTest: { comparator: "${returnValueTest.comparator || '>='}", value: ${toCodeLiteral(returnValueTest.value)} },`);
+  }
+  lines.push(chainLine(chain));
+  lines.push('});');
+  return lines;
+};
+
+const codegenErc721Ownership = (condition: TacoCondition, varName: string): string[] => {
+  if (readsExternalUserAddress(condition)) return codegenContract(condition, varName);
+  const { chain, contractAddress, parameters } = condition as ContractCondition;
+  const lines = [
+    `const ${varName} = new conditions.predefined.erc721.ERC721Ownership({`,
+    `  contractAddress: '${contractAddress || '0x0000000000000000000000000000000000000000'}',`
+  ];
+  // Extract token ID from parameters if available
+  if (parameters && Array.isArray(parameters) && parameters.length > 0) {
+    lines.push(`  parameters: [${toCodeLiteral(parameters[0])}],`);
+  }
+  lines.push(chainLine(chain));
+  lines.push('});');
+  return lines;
+};
+
+// ERC1155
+
+const compileErc1155Balance = (block: Block, tokenId: string): ContractCondition => {
+  const amountInput = findInput(block, 'tokenAmount');
+  return {
+    conditionType: 'contract',
+    chain: parseChainId(findInput(block, 'chain')?.value || ''),
+    contractAddress: toChecksumAddress(findInput(block, 'contractAddress')?.value || ''),
+    method: 'balanceOf',
+    functionAbi: ERC1155_BALANCE_OF_ABI,
+    parameters: [':userAddress', tokenId.startsWith(':') ? tokenId : compileInteger(tokenId)],
+    returnValueTest: {
+      comparator: (amountInput?.comparator || '>=') as Comparator,
+      value: compileInteger(amountInput?.value || '0')
+    }
+  };
+};
+
+// Token IDs are entered as a comma or whitespace separated list
+const parseTokenIds = (text: string): string[] => text.split(/[\s,]+/).filter(Boolean);
+
+// TACo allows at most this many operands in a compound condition
+const MAX_COMPOUND_OPERANDS = 5;
+
+const decompileErc1155Amount = (block: Block, condition: ConditionRecord, path: string, context: DecompileContext) => {
+  const returnValueTest = decompileReturnValueTest(condition, path, context.reportUnmapped);
+  if (returnValueTest && isNumericValue(returnValueTest.value)) {
+    setInputValue(block, 'tokenAmount', String(returnValueTest.value), returnValueTest.comparator);
+  } else if (returnValueTest) {
+    context.reportUnmapped(`${path}.returnValueTest.value: ${JSON.stringify(returnValueTest.value)} is not a token amount`);
+  }
+};
+
+const decompileErc1155Balance = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('erc1155-balance');
+  setInputValue(block, 'tokenId', String(contractParameters(condition)[1] ?? ''));
+  decompileErc1155Amount(block, condition, path, context);
+  return decompileContractTarget(block, condition);
+};
+
+// balanceOfBatch returns an array, which a returnValueTest cannot compare element by element and TACo's
+// function ABIs do not accept, so a batch compiles to one balanceOf condition per token ID joined with AND
+const compileErc1155BatchBalance = (block: Block): TacoCondition => {
+  const tokenIds = parseTokenIds(findInput(block, 'tokenIds')?.value || '');
+  const operands = (tokenIds.length ? tokenIds : ['']).map(tokenId => compileErc1155Balance(block, tokenId));
+  if (operands.length === 1) return operands[0];
+
+  return { conditionType: 'compound', operator: 'and', operands } as CompoundCondition;
+};
+
+// A batch is an AND over balanceOf conditions that differ only in the token ID
+const isErc1155Batch = (condition: ConditionRecord) => {
+  if (condition.conditionType !== 'compound' || condition.operator !== 'and' || !Array.isArray(condition.operands)) {
+    return false;
+  }
+  const operands = condition.operands as ConditionRecord[];
+  const [first] = operands;
+  return operands.length >= 2 && operands.every(operand =>
+    asRecord(operand) !== null &&
+    isErc1155Balance(operand) &&
+    operand.chain === first.chain &&
+    operand.contractAddress === first.contractAddress &&
+    JSON.stringify(operand.returnValueTest) === JSON.stringify(first.returnValueTest));
+};
+
+const decompileErc1155BatchBalance = (condition: ConditionRecord, path: string, context: DecompileContext): Block => {
+  const block = context.createBlock('erc1155-batch-balance');
+  const operands = condition.operands as ConditionRecord[];
+
+  setInputValue(block, 'tokenIds', operands.map(operand => String(contractParameters(operand)[1] ?? '')).join(', '));
+  decompileErc1155Amount(block, operands[0], `${path}.operands[0]`, context);
+  return decompileContractTarget(block, operands[0]);
+};
+
+const validateErc1155BatchBalance = (
+  condition: TacoCondition,
+  context: { validate: (condition: TacoCondition) => string | null }
+) => {
+  if (condition.conditionType !== 'compound') {
+    validateTokenBalance(condition);
+    return;
+  }
+  if (condition.operands.length > MAX_COMPOUND_OPERANDS) {
+    throw new Error(`A batch can check at most ${MAX_COMPOUND_OPERANDS} token IDs`);
+  }
+  validateCompound(condition, context);
+};
+
+export const TOKEN_DEFINITIONS: BlockDefinition[] = [
+  {
+    id: 'erc20-balance',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'ERC20 Balance',
+    inputs: [
+      { id: 'contractAddress', type: ['address'], label: 'Token Address' },
+      {
+        id: 'chain',
+        type: ['chainId'],
+        label: 'Chain ID',
+        inputType: 'number',
+        placeholder: 'Enter any valid chain ID'
+      },
+      {
+        id: 'tokenAmount',
+        type: ['uint256'],
+        label: 'Token Amount',
+        inputType: 'text',
+        placeholder: 'e.g. 1.5',
+        units: TOKEN_UNITS,
+        unit: 'tokens'
+      },
+      { id: 'decimals', type: ['uint256'], label: 'Token Decimals', inputType: 'number', value: '18' },
+    ],
+    properties: {
+      conditionType: 'contract',
+      standardContractType: 'ERC20',
+      method: 'balanceOf',
+      parameters: [':userAddress'],
+      returnValueTest: {
+        comparator: '>',
+        value: 0
+      }
+    },
+    matchesBlock: hasContractProperties('ERC20', 'balanceOf'),
+    matchesCondition: isErc20Balance,
+    compile: compileContract,
+    decompile: decompileTokenBalance('erc20-balance'),
+    validate: validateTokenBalance,
+    toTacoCondition: toContractCondition,
+    codegen: codegenErc20Balance
+  },
+  {
+    id: 'erc721-balance',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'ERC721 Balance',
+    inputs: [
+      { id: 'contractAddress', type: ['address'], label: 'Contract Address' },
+      { id: 'chain', type: ['chainId'], label: 'Chain ID', inputType: 'number' },
+      { id: 'tokenAmount', type: ['uint256'], label: 'Min Balance', inputType: 'number' },
+    ],
+    properties: {
+      conditionType: 'contract',
+      standardContractType: 'ERC721',
+      method: 'balanceOf',
+      parameters: [':userAddress'],
+      returnValueTest: {
+        comparator: '>',
+        value: 0
+      }
+    },
+    matchesBlock: hasContractProperties('ERC721', 'balanceOf'),
+    matchesCondition: isErc721Balance,
+    compile: compileContract,
+    decompile: decompileTokenBalance('erc721-balance'),
+    validate: validateTokenBalance,
+    toTacoCondition: toContractCondition,
+    codegen: codegenContract
+  },
+  {
+    id: 'erc721-ownership',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'ERC721 Ownership',
+    inputs: [
+      { id: 'contractAddress', type: ['address'], label: 'Contract Address' },
+      { id: 'tokenId', type: ['uint256'], label: 'Token ID', inputType: 'text' },
+      { id: 'chain', type: ['chainId'], label: 'Chain ID', inputType: 'number' },
+    ],
+    properties: {
+      conditionType: 'contract',
+      standardContractType: 'ERC721',
+      method: 'ownerOf',
+      parameters: [':tokenId'],
+      returnValueTest: {
+        comparator: '==',
+        value: ':userAddress'
+      }
+    },
+    matchesBlock: hasContractProperties('ERC721', 'ownerOf'),
+    matchesCondition: isErc721Ownership,
+    compile: compileContract,
+    decompile: decompileErc721Ownership,
+    validate: validateContract,
+    toTacoCondition: toContractCondition,
+    codegen: codegenErc721Ownership
+  },
+  {
+    id: 'erc1155-balance',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'ERC1155 Balance',
+    inputs: [
+      { id: 'contractAddress', type: ['address'], label: 'Contract Address' },
+      { id: 'tokenId', type: ['uint256'], label: 'Token ID', inputType: 'text' },
+      { id: 'chain', type: ['chainId'], label: 'Chain ID', inputType: 'number' },
+      { id: 'tokenAmount', type: ['uint256'], label: 'Min Balance', inputType: 'text', value: '1' },
+    ],
+    properties: {
+      conditionType: 'contract',
+      method: 'balanceOf',
+      parameters: [':userAddress', ':tokenId']
+    },
+    matchesCondition: isErc1155Balance,
+    compile: block => compileErc1155Balance(block, findInput(block, 'tokenId')?.value || ''),
+    decompile: decompileErc1155Balance,
+    validate: validateTokenBalance,
+    toTacoCondition: toContractCondition,
+    codegen: codegenContract
+  },
+  {
+    id: 'erc1155-batch-balance',
+    type: 'condition',
+    category: BLOCK_CATEGORIES.CONDITIONS,
+    label: 'ERC1155 Batch Balance',
+    inputs: [
+      { id: 'contractAddress', type: ['address'], label: 'Contract Address' },
+      { id: 'tokenIds', type: ['string'], label: 'Token IDs', inputType: 'text', placeholder: 'e.g. 1, 2, 3' },
+      { id: 'chain', type: ['chainId'], label: 'Chain ID', inputType: 'number' },
+      { id: 'tokenAmount', type: ['uint256'], label: 'Min Balance (each)', inputType: 'text', value: '1' },
+    ],
+    properties: {
+      conditionType: 'contract',
+      method: 'balanceOf'
+    },
+    matchesCondition: isErc1155Batch,
+    compile: compileErc1155BatchBalance,
+    decompile: decompileErc1155BatchBalance,
+    validate: validateErc1155BatchBalance,
+    toTacoCondition: condition => condition.conditionType === 'compound'
+      ? new conditions.compound.CompoundCondition(condition as CompoundCondition)
+      : toContractCondition(condition),
+    codegen: (condition, varName, context) => condition.conditionType === 'compound'
+      ? codegenCompound(condition, varName, context)
+      : codegenContract(condition, varName)
+  }
+];
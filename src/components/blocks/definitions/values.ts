@@ -0,0 +1,49 @@
+import { BLOCK_CATEGORIES } from '../BlockTypes';
+import type { BlockDefinition } from '../blockRegistry';
+
+export const VALUE_DEFINITIONS: BlockDefinition[] = [
+  {
+    id: 'chain-amoy',
+    type: 'value',
+    category: BLOCK_CATEGORIES.VALUES,
+    label: 'Amoy Chain ID (80002)',
+    value: '80002',
+    kind: 'chainId',
+    properties: {
+      type: 'number'
+    }
+  },
+  {
+    id: 'chain-mainnet',
+    type: 'value',
+    category: BLOCK_CATEGORIES.VALUES,
+    label: 'Ethereum Chain ID (1)',
+    value: '1',
+    kind: 'chainId',
+    properties: {
+      type: 'number'
+    }
+  },
+  {
+    id: 'chain-polygon',
+    type: 'value',
+    category: BLOCK_CATEGORIES.VALUES,
+    label: 'Polygon Chain ID (137)',
+    value: '137',
+    kind: 'chainId',
+    properties: {
+      type: 'number'
+    }
+  },
+  {
+    id: 'contract-address',
+    type: 'value',
+    category: BLOCK_CATEGORIES.VALUES,
+    label: 'Contract Address (0x8a6d...fa5c)',
+    value: '0x8a6d59c1c0449ccf26d87bd52be029ec4a5afa5c',
+    kind: 'address',
+    properties: {
+      type: 'string'
+    }
+  }
+];
@@ -0,0 +1,260 @@
+import { utils } from 'ethers';
+import { TacoCondition } from '../../types/taco';
+import { DecompileResult, jsonToBlocks } from './blockUtils';
+import { toChecksumAddress } from './blockHelpers';
+import builtinTemplateFile from '../../config/templates.json';
+
+export const TEMPLATE_FILE_VERSION = 1;
+
+const CUSTOM_TEMPLATES_STORAGE_KEY = 'taco-playground:custom-templates';
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+// How a form value is checked and substituted into the condition
+export type TemplateParamType = 'text' | 'number' | 'address' | 'chain' | 'minutesFromNow';
+
+const PARAM_TYPES: TemplateParamType[] = ['text', 'number', 'address', 'chain', 'minutesFromNow'];
+
+export interface TemplateParam {
+  id: string;
+  label: string;
+  type: TemplateParamType;
+  default?: string | number;
+  description?: string;
+  placeholder?: string;
+}
+
+// A declarative template: a condition with {{param}} placeholders plus the form that fills them in
+export interface ConditionTemplate {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  tags: string[];
+  params: TemplateParam[];
+  condition: Record<string, unknown>;
+  source: 'builtin' | 'custom';
+}
+
+const registry = new Map<string, ConditionTemplate>();
+let customTemplatesLoaded = false;
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+// Collect the names of all {{placeholders}} used anywhere in a condition
+const collectPlaceholders = (value: unknown, found: Set<string> = new Set()): Set<string> => {
+  if (typeof value === 'string') {
+    for (const match of Array.from(value.matchAll(PLACEHOLDER_PATTERN))) {
+      found.add(match[1]);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectPlaceholders(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectPlaceholders(item, found));
+  }
+  return found;
+};
+
+const parseParam = (value: unknown, templateId: string): TemplateParam => {
+  const param = asRecord(value);
+  if (!param || typeof param.id !== 'string' || typeof param.label !== 'string') {
+    throw new Error(`Template "${templateId}" has a parameter without an id or label`);
+  }
+  if (!PARAM_TYPES.includes(param.type as TemplateParamType)) {
+    throw new Error(`Template "${templateId}" parameter "${param.id}" has unknown type ${JSON.stringify(param.type)}`);
+  }
+
+  return {
+    id: param.id,
+    label: param.label,
+    type: param.type as TemplateParamType,
+    default: typeof param.default === 'string' || typeof param.default === 'number' ? param.default : undefined,
+    description: typeof param.description === 'string' ? param.description : undefined,
+    placeholder: typeof param.placeholder === 'string' ? param.placeholder : undefined
+  };
+};
+
+const parseTemplate = (value: unknown, source: ConditionTemplate['source']): ConditionTemplate => {
+  const template = asRecord(value);
+  if (!template || typeof template.id !== 'string' || typeof template.name !== 'string') {
+    throw new Error('Every template needs an id and a name');
+  }
+
+  const condition = asRecord(template.condition);
+  if (!condition || typeof condition.conditionType !== 'string') {
+    throw new Error(`Template "${template.id}" has no condition`);
+  }
+
+  const params = Array.isArray(template.params)
+    ? template.params.map(param => parseParam(param, template.id as string))
+    : [];
+  const paramIds = new Set(params.map(param => param.id));
+  collectPlaceholders(condition).forEach(placeholder => {
+    if (!paramIds.has(placeholder)) {
+      throw new Error(`Template "${template.id}" uses {{${placeholder}}} but declares no such parameter`);
+    }
+  });
+
+  return {
+    id: template.id,
+    name: template.name,
+    description: typeof template.description === 'string' ? template.description : '',
+    category: typeof template.category === 'string' && template.category ? template.category : 'Other',
+    tags: Array.isArray(template.tags) ? template.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    params,
+    condition,
+    source
+  };
+};
+
+// Validate a template file ({ version, templates: [...] }) and return its templates
+export const parseTemplateFile = (file: unknown, source: ConditionTemplate['source'] = 'custom'): ConditionTemplate[] => {
+  const parsed = asRecord(file);
+  if (!parsed || typeof parsed.version !== 'number' || !Array.isArray(parsed.templates)) {
+    throw new Error('Not a template file: expected { "version": 1, "templates": [...] }');
+  }
+  if (parsed.version > TEMPLATE_FILE_VERSION) {
+    throw new Error(`Template file version ${parsed.version} is newer than this playground supports`);
+  }
+
+  return parsed.templates.map(template => parseTemplate(template, source));
+};
+
+// Add templates to the registry; a template with an existing id replaces it
+export const registerTemplates = (templates: ConditionTemplate[]): void => {
+  templates.forEach(template => registry.set(template.id, template));
+};
+
+const loadCustomTemplates = () => {
+  if (customTemplatesLoaded || typeof window === 'undefined') return;
+  customTemplatesLoaded = true;
+
+  try {
+    const stored = localStorage.getItem(CUSTOM_TEMPLATES_STORAGE_KEY);
+    if (stored) {
+      registerTemplates(parseTemplateFile(JSON.parse(stored)));
+    }
+  } catch (error) {
+    console.error('Failed to load custom templates:', error);
+  }
+};
+
+// Register the templates in a user-provided JSON file and remember them for later sessions
+export const registerTemplateFile = (text: string): ConditionTemplate[] => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const templates = parseTemplateFile(file);
+  loadCustomTemplates();
+  registerTemplates(templates);
+
+  const custom = Array.from(registry.values())
+    .filter(template => template.source === 'custom')
+    .map(template => ({ ...template, source: undefined }));
+  try {
+    localStorage.setItem(
+      CUSTOM_TEMPLATES_STORAGE_KEY,
+      JSON.stringify({ version: TEMPLATE_FILE_VERSION, templates: custom })
+    );
+  } catch (error) {
+    console.error('Failed to persist custom templates:', error);
+  }
+
+  return templates;
+};
+
+export const getTemplates = (): ConditionTemplate[] => {
+  loadCustomTemplates();
+  return Array.from(registry.values());
+};
+
+// Case-insensitive search; every word must match the name, description, category or a tag
+export const searchTemplates = (templates: ConditionTemplate[], query: string): ConditionTemplate[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return templates;
+
+  return templates.filter(template => {
+    const haystack = [template.name, template.description, template.category, ...template.tags]
+      .join(' ')
+      .toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export const getDefaultParamValues = (template: ConditionTemplate): Record<string, string> =>
+  Object.fromEntries(template.params.map(param => [param.id, param.default !== undefined ? String(param.default) : '']));
+
+// Check a form value against its parameter type, returning an error message or null
+export const validateParamValue = (param: TemplateParam, value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return `${param.label} is required`;
+
+  switch (param.type) {
+    case 'address':
+      // Checksum casing is normalized on insert, so only the hex digits are checked here
+      return utils.isAddress(trimmed.toLowerCase()) ? null : `${param.label} must be a valid address`;
+    case 'chain':
+      return /^[1-9]\d*$/.test(trimmed) ? null : `${param.label} must be a positive integer`;
+    case 'number':
+    case 'minutesFromNow':
+      return /^\d+$/.test(trimmed) ? null : `${param.label} must be a whole number`;
+    default:
+      return null;
+  }
+};
+
+// Turn a form value into the JSON value substituted for its placeholder
+const resolveParamValue = (param: TemplateParam, value: string): string | number => {
+  const trimmed = value.trim();
+  switch (param.type) {
+    case 'address':
+      return toChecksumAddress(trimmed.toLowerCase());
+    case 'minutesFromNow':
+      return Math.floor(Date.now() / 1000) + Number(trimmed) * 60;
+    case 'chain':
+    case 'number': {
+      // Keep amounts beyond the safe integer range as strings so they are not rounded
+      const numeric = Number(trimmed);
+      return Number.isSafeInteger(numeric) ? numeric : trimmed;
+    }
+    default:
+      return value;
+  }
+};
+
+const substitute = (value: unknown, resolved: Record<string, string | number>): unknown => {
+  if (typeof value === 'string') {
+    // A string that is exactly one placeholder takes the parameter's type
+    const exact = value.match(/^\{\{(\w+)\}\}$/);
+    if (exact) return resolved[exact[1]];
+    return value.replace(PLACEHOLDER_PATTERN, (_, id: string) => String(resolved[id]));
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substitute(item, resolved));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substitute(item, resolved)]));
+  }
+  return value;
+};
+
+// Fill in a template's parameters and build the workspace blocks for it
+export const instantiateTemplate = (template: ConditionTemplate, values: Record<string, string>): DecompileResult => {
+  const resolved: Record<string, string | number> = {};
+  template.params.forEach(param => {
+    const value = values[param.id] ?? '';
+    const error = validateParamValue(param, value);
+    if (error) {
+      throw new Error(error);
+    }
+    resolved[param.id] = resolveParamValue(param, value);
+  });
+
+  return jsonToBlocks(substitute(template.condition, resolved) as TacoCondition);
+};
+
+registerTemplates(parseTemplateFile(builtinTemplateFile, 'builtin'));
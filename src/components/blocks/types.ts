@@ -1,14 +1,21 @@
-import { BlockInput, BlockProperties } from './BlockTypes';
+import { BlockInput, BlockProperties, ValueKind } from './BlockTypes';
 
 export interface DragItem {
   id: string;
+  definitionId?: string;
   type: string;
   category?: string;
   label: string;
   inputs?: BlockInput[];
   properties?: BlockProperties;
   value?: string;
+  kind?: ValueKind;
   isTemplate: boolean;
 }
 
 export type DragRef = ((element: HTMLDivElement | null) => void) | React.RefObject<HTMLDivElement | null>; 
+
+export interface BlockUpdateOptions {
+  // Consecutive updates sharing a key are merged into a single undo step
+  coalesceKey?: string;
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { Block } from './BlockTypes';
+import { BlockUpdateOptions } from './types';
+
+// Maximum number of undo steps kept
+const MAX_HISTORY = 100;
+// Updates with the same coalesce key closer together than this become one step
+const COALESCE_WINDOW_MS = 1000;
+
+interface HistoryState {
+  past: Block[][];
+  present: Block[];
+  future: Block[][];
+  lastCoalesceKey?: string;
+  lastUpdateAt: number;
+}
+
+export type SetBlocks = (action: React.SetStateAction<Block[]>, options?: BlockUpdateOptions) => void;
+
+export interface BlockHistory {
+  blocks: Block[];
+  setBlocks: SetBlocks;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const useBlockHistory = (initialBlocks: Block[] = []): BlockHistory => {
+  const [history, setHistory] = useState<HistoryState>({
+    past: [],
+    present: initialBlocks,
+    future: [],
+    lastUpdateAt: 0
+  });
+
+  const setBlocks = useCallback<SetBlocks>((action, options = {}) => {
+    const now = Date.now();
+
+    setHistory(prev => {
+      const next = typeof action === 'function' ? action(prev.present) : action;
+
+      // Skip updates that don't change anything so they don't become empty undo steps
+      if (next === prev.present || JSON.stringify(next) === JSON.stringify(prev.present)) {
+        return prev;
+      }
+
+      const coalesce = options.coalesceKey !== undefined &&
+        options.coalesceKey === prev.lastCoalesceKey &&
+        now - prev.lastUpdateAt < COALESCE_WINDOW_MS;
+
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastCoalesceKey: options.coalesceKey,
+        lastUpdateAt: now
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (!prev.past.length) return prev;
+
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        lastUpdateAt: 0
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (!prev.future.length) return prev;
+
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        lastUpdateAt: 0
+      };
+    });
+  }, []);
+
+  return {
+    blocks: history.present,
+    setBlocks,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
@@ -1,15 +1,17 @@
 import React from 'react';
 import Link from 'next/link';
 import WalletButton from '../WalletButton';
+import SiweSessionStatus from '../SiweSessionStatus';
 import { ethers } from 'ethers';
 import Image from 'next/image';
 
 interface HeaderProps {
   variant?: 'playground' | 'decrypt';
   onOpenSettings?: () => void;
+  onOpenLibrary?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ variant = 'playground', onOpenSettings }) => {
+const Header: React.FC<HeaderProps> = ({ variant = 'playground', onOpenSettings, onOpenLibrary }) => {
   const handleConnect = (provider: ethers.providers.Web3Provider) => {
     console.log('Connected to wallet', provider);
   };
@@ -37,6 +39,7 @@ const Header: React.FC<HeaderProps> = ({ variant = 'playground', onOpenSettings
           </div>
         </div>
         <div className="flex items-center gap-4">
+          <SiweSessionStatus />
           <WalletButton onConnect={handleConnect} />
           {variant === 'playground' ? (
             <Link 
@@ -59,6 +62,17 @@ const Header: React.FC<HeaderProps> = ({ variant = 'playground', onOpenSettings
               Go to Playground
             </Link>
           )}
+          {variant === 'playground' && onOpenLibrary && (
+            <button
+              onClick={onOpenLibrary}
+              className="px-4 py-2 bg-white/5 text-white rounded-lg text-sm font-diatype font-bold
+                border border-white/5 transition-all duration-200
+                hover:bg-white/10 hover:border-white/10
+                focus:outline-none focus:ring-1 focus:ring-white/10"
+            >
+              Library
+            </button>
+          )}
           {variant === 'playground' && (
             <button
               onClick={onOpenSettings}
@@ -7,13 +7,14 @@ import Header from './Header';
 interface MainLayoutProps {
   children: React.ReactNode;
   onOpenSettings: () => void;
+  onOpenLibrary?: () => void;
 }
 
-const MainLayout: React.FC<MainLayoutProps> = ({ children, onOpenSettings }) => {
+const MainLayout: React.FC<MainLayoutProps> = ({ children, onOpenSettings, onOpenLibrary }) => {
   return (
     <div className="min-h-screen flex flex-col bg-black">
       {/* Full-width Header */}
-      <Header variant="playground" onOpenSettings={onOpenSettings} />
+      <Header variant="playground" onOpenSettings={onOpenSettings} onOpenLibrary={onOpenLibrary} />
 
       {/* Content Area with Sidebar */}
       <div className="flex flex-1 overflow-hidden">
@@ -6,9 +6,12 @@ export type ChainId = number;
 
 export type Comparator = '==' | '>' | '<' | '>=' | '<=' | '!=';
 
+// Values a returnValueTest can compare against; strings include context variables like :userAddress
+export type ReturnValue = string | number | boolean | ReturnValue[];
+
 export interface ReturnValueTest {
   comparator: Comparator;
-  value: string | number;
+  value: ReturnValue;
   index?: number;
 }
 
@@ -25,31 +28,29 @@ export interface TimeCondition extends OnChainCondition {
   method: 'blocktime';
 }
 
+// Function inputs and outputs; TACo accepts base Solidity types only
+export interface FunctionAbiVariable {
+  type: string;
+  name: string;
+  internalType: string;
+  components?: FunctionAbiVariable[];
+}
+
+export interface FunctionAbi {
+  type: 'function';
+  name: string;
+  inputs: FunctionAbiVariable[];
+  outputs: [FunctionAbiVariable, ...FunctionAbiVariable[]];
+  stateMutability: 'view' | 'pure';
+}
+
 export interface ContractCondition extends OnChainCondition {
   conditionType: 'contract';
   contractAddress: string;
   standardContractType?: 'ERC20' | 'ERC721';
   method: string;
   parameters: unknown[];
-  functionAbi?: {
-    type: 'function';
-    name: string;
-    inputs: {
-      type: string;
-      name: string;
-      internalType: string;
-    }[];
-    outputs: [{
-      type: string;
-      name: string;
-      internalType: string;
-    }, ...{
-      type: string;
-      name: string;
-      internalType: string;
-    }[]];
-    stateMutability: 'view' | 'pure';
-  };
+  functionAbi?: FunctionAbi;
 }
 
 export interface RpcCondition extends OnChainCondition {
@@ -67,13 +68,51 @@ export interface JsonRpcCondition extends BaseCondition {
   query?: string;
 }
 
+// An HTTPS GET request whose JSON response is read with a JSONPath query
+export interface JsonApiCondition extends BaseCondition {
+  conditionType: 'json-api';
+  endpoint: string;
+  // Sent as the URL's query string
+  parameters?: Record<string, unknown>;
+  query?: string;
+  // A context variable holding the bearer token, supplied at decryption
+  authorizationToken?: string;
+}
+
 export interface CompoundCondition {
   conditionType: 'compound';
   operator: 'and' | 'or' | 'not';
-  operands: (TimeCondition | ContractCondition | RpcCondition | CompoundCondition | JsonRpcCondition)[];
+  operands: TacoCondition[];
+}
+
+// A step of a sequential condition; its result is available to later steps as :varName
+export interface ConditionVariable {
+  varName: string;
+  condition: TacoCondition;
+}
+
+export interface SequentialCondition {
+  conditionType: 'sequential';
+  conditionVariables: ConditionVariable[];
+}
+
+// Checks thenCondition when ifCondition holds and elseCondition otherwise; a boolean else is a fixed outcome
+export interface IfThenElseCondition {
+  conditionType: 'if-then-else';
+  ifCondition: TacoCondition;
+  thenCondition: TacoCondition;
+  elseCondition: TacoCondition | boolean;
 }
 
-export type TacoCondition = TimeCondition | ContractCondition | RpcCondition | CompoundCondition | JsonRpcCondition;
+export type TacoCondition =
+  | TimeCondition
+  | ContractCondition
+  | RpcCondition
+  | CompoundCondition
+  | JsonRpcCondition
+  | JsonApiCondition
+  | SequentialCondition
+  | IfThenElseCondition;
 
 export interface MessageKit {
   capsule: string;
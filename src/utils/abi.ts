@@ -0,0 +1,341 @@
+/**
+ * Reading the function ABIs entered on contract blocks and checking call parameters against them
+ */
+
+import { utils } from 'ethers';
+import { FunctionAbi, FunctionAbiVariable } from '../types/taco';
+import { isContextVariable, ReturnValueType } from './returnValues';
+import { toConditionInteger } from './units';
+
+export interface AbiParameter {
+  name?: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParameter[];
+}
+
+// Solidity types TACo accepts in a condition's functionAbi
+const ABI_BASE_TYPES = new Set<string>([
+  'bool',
+  'string',
+  'address',
+  'address payable',
+  'bytes',
+  ...Array.from({ length: 32 }, (_, i) => `bytes${i + 1}`),
+  ...Array.from({ length: 32 }, (_, i) => `uint${8 * (i + 1)}`),
+  ...Array.from({ length: 32 }, (_, i) => `int${8 * (i + 1)}`)
+]);
+
+// An entry of a contract ABI
+export interface AbiFragment {
+  type: string;
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: string;
+  constant?: boolean;
+}
+
+const isAbiParameter = (value: unknown): value is AbiParameter =>
+  !!value && typeof value === 'object' && typeof (value as AbiParameter).type === 'string';
+
+/**
+ * Whether a Solidity type can be used in a condition's functionAbi
+ * @param type The Solidity type, e.g. uint256
+ * @returns True for base types; tuples and arrays are not supported by TACo
+ */
+export const isAbiBaseType = (type: string): boolean => ABI_BASE_TYPES.has(type);
+
+/**
+ * Reads the outputs of a function ABI entered as JSON
+ * @param abiText The function ABI as typed into a block
+ * @returns The outputs, or an empty list when the text is not a function ABI
+ */
+export const getFunctionOutputs = (abiText?: string): AbiParameter[] => {
+  if (!abiText?.trim()) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(abiText);
+  } catch {
+    return [];
+  }
+
+  const outputs = parsed && typeof parsed === 'object' ? (parsed as { outputs?: unknown }).outputs : undefined;
+  return Array.isArray(outputs) && outputs.every(isAbiParameter) ? outputs : [];
+};
+
+// Keep only the fields TACo allows; compiler-specific internal types (e.g. "contract IERC20") fall back to the type.
+// Tuple components are kept so their values can still be checked, although TACo does not accept tuples
+const toAbiVariable = (parameter: AbiParameter): FunctionAbiVariable => ({
+  name: parameter.name ?? '',
+  type: parameter.type,
+  internalType: parameter.internalType && isAbiBaseType(parameter.internalType) ? parameter.internalType : parameter.type,
+  ...(parameter.components ? { components: parameter.components.map(toAbiVariable) } : {})
+});
+
+/**
+ * Reads a contract ABI from pasted or uploaded JSON
+ * @param text A bare ABI array, or a Hardhat or Foundry artifact with an abi field
+ * @returns The ABI entries
+ * @throws When the text is not an ABI
+ */
+export const extractContractAbi = (text: string): AbiFragment[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid ABI JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const abi = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' ? (parsed as { abi?: unknown }).abi : undefined;
+  if (!Array.isArray(abi)) {
+    throw new Error('Expected an ABI array or a Hardhat/Foundry artifact with an "abi" field');
+  }
+  if (!abi.every(entry => !!entry && typeof entry === 'object' && typeof entry.type === 'string')) {
+    throw new Error('Every ABI entry needs a type');
+  }
+  return abi as AbiFragment[];
+};
+
+/**
+ * Lists the functions of a contract ABI that can be called from a condition
+ * @param abi The contract ABI
+ * @returns The view and pure functions
+ */
+export const getReadFunctions = (abi: AbiFragment[]): AbiFragment[] =>
+  abi.filter(fragment =>
+    fragment.type === 'function' &&
+    !!fragment.name &&
+    (fragment.stateMutability === 'view' || fragment.stateMutability === 'pure' ||
+      (!fragment.stateMutability && fragment.constant === true)));
+
+/**
+ * Formats a function's signature, which tells overloads apart, e.g. "balanceOf(address,uint256)"
+ * @param fragment The function ABI
+ * @returns The signature
+ */
+export const getFunctionSignature = (fragment: AbiFragment): string => {
+  try {
+    return utils.FunctionFragment.from(fragment).format();
+  } catch {
+    return `${fragment.name}(${(fragment.inputs || []).map(input => input.type).join(',')})`;
+  }
+};
+
+/**
+ * Parses a function argument typed into its own field into the value used in a condition's parameters
+ * @param text The argument as typed
+ * @param type The Solidity type of the argument
+ * @returns The parameter value; context variables are passed through unchanged
+ * @throws When the text cannot be read as a value of the type
+ */
+export const parseArgumentValue = (text: string, type: string): unknown => {
+  const trimmed = text.trim();
+  if (isContextVariable(trimmed)) return trimmed;
+
+  // Arrays and tuples are written as JSON arrays
+  if (type.endsWith(']') || type.startsWith('tuple')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error(`A ${type} value must be a JSON array`);
+    }
+    return parsed;
+  }
+
+  if (type === 'bool') {
+    if (trimmed !== 'true' && trimmed !== 'false') {
+      throw new Error('A bool must be true or false');
+    }
+    return trimmed === 'true';
+  }
+
+  if (/^u?int\d*$/.test(type)) {
+    if (!/^-?\d+$/.test(trimmed)) {
+      throw new Error(`"${text}" is not an integer`);
+    }
+    if (!trimmed.startsWith('-')) return toConditionInteger(trimmed);
+    return Number.isSafeInteger(Number(trimmed)) ? Number(trimmed) : trimmed;
+  }
+
+  if (type.startsWith('address')) {
+    if (!utils.isAddress(trimmed.toLowerCase())) {
+      throw new Error(`"${text}" is not a valid address`);
+    }
+    return utils.getAddress(trimmed.toLowerCase());
+  }
+
+  return type === 'string' ? text : trimmed;
+};
+
+/**
+ * Parses a single function ABI entered as JSON into the shape used in a condition's functionAbi
+ * @param abiText The function ABI as typed into a block
+ * @returns The function ABI
+ * @throws When the text is not the ABI of a single view or pure function
+ */
+export const parseFunctionAbi = (abiText: string): FunctionAbi => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(abiText);
+  } catch (error) {
+    throw new Error(`Invalid ABI JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('The function ABI must be a single function object');
+  }
+
+  const fragment = parsed as Record<string, unknown>;
+  if (fragment.type !== undefined && fragment.type !== 'function') {
+    throw new Error(`The ABI describes a ${String(fragment.type)}, not a function`);
+  }
+  if (typeof fragment.name !== 'string' || !fragment.name) {
+    throw new Error('The function ABI needs a name');
+  }
+  if (!Array.isArray(fragment.inputs) || !fragment.inputs.every(isAbiParameter)) {
+    throw new Error('The function ABI needs an inputs array of { name, type } entries');
+  }
+  if (!Array.isArray(fragment.outputs) || !fragment.outputs.length || !fragment.outputs.every(isAbiParameter)) {
+    throw new Error('The function ABI needs at least one output');
+  }
+
+  // ABIs from older compilers mark read-only functions as constant
+  const stateMutability = fragment.stateMutability ?? (fragment.constant === true ? 'view' : undefined);
+  if (stateMutability !== 'view' && stateMutability !== 'pure') {
+    throw new Error('Only view and pure functions can be used in conditions');
+  }
+
+  const [firstOutput, ...otherOutputs] = fragment.outputs.map(toAbiVariable);
+  return {
+    type: 'function',
+    name: fragment.name,
+    inputs: fragment.inputs.map(toAbiVariable),
+    outputs: [firstOutput, ...otherOutputs],
+    stateMutability
+  };
+};
+
+/**
+ * Parses call parameters entered as a JSON array
+ * @param parametersText The parameters as typed into a block; empty text means no parameters
+ * @returns The parameters
+ * @throws When the text is not a JSON array
+ */
+export const parseParameters = (parametersText: string): unknown[] => {
+  if (!parametersText.trim()) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(parametersText);
+  } catch (error) {
+    throw new Error(`Invalid parameters JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Parameters must be a JSON array, e.g. [":userAddress"]');
+  }
+  return parsed;
+};
+
+const containsContextVariable = (value: unknown): boolean =>
+  isContextVariable(value) || (Array.isArray(value) && value.some(containsContextVariable));
+
+// Ethers errors carry a reason, which may end in a diagnostic like "(argument=..., code=...)"
+const getErrorReason = (error: unknown): string => {
+  const reason = (error as { reason?: string }).reason || (error instanceof Error ? error.message : String(error));
+  return reason.replace(/\s*\(argument=.*$/, '');
+};
+
+/**
+ * Checks a single argument against its ABI type by encoding it with the ABI coder
+ * @param parameter The ABI input the argument is passed to
+ * @param value The argument; context variables are resolved at decryption time and not checked
+ * @returns An error message, or null when the value fits the type
+ */
+export const checkArgumentValue = (parameter: AbiParameter, value: unknown): string | null => {
+  if (containsContextVariable(value)) return null;
+
+  // The coder accepts any truthy value for bool, so booleans are checked directly
+  if (parameter.type === 'bool' && typeof value !== 'boolean') {
+    return 'expected true or false';
+  }
+  try {
+    utils.defaultAbiCoder.encode([utils.ParamType.from(parameter)], [value]);
+  } catch (error) {
+    return getErrorReason(error);
+  }
+  return null;
+};
+
+/**
+ * Checks call parameters against the inputs of a function ABI
+ * @param functionAbi The function ABI
+ * @param parameters The parameters
+ * @returns An error message, or null when the parameters fit the function
+ */
+export const checkFunctionParameters = (functionAbi: FunctionAbi, parameters: unknown[]): string | null => {
+  const { inputs } = functionAbi;
+  if (parameters.length !== inputs.length) {
+    return `${functionAbi.name} takes ${inputs.length} parameter(s), but ${parameters.length} were given`;
+  }
+
+  for (let i = 0; i < inputs.length; i++) {
+    const error = checkArgumentValue(inputs[i], parameters[i]);
+    if (error) return `Parameter ${i + 1} (${inputs[i].name || inputs[i].type}): ${error}`;
+  }
+  return null;
+};
+
+/**
+ * Reads the element type of an array type, e.g. uint256 for uint256[3]
+ * @param parameter The ABI parameter
+ * @returns The element parameter and, for fixed-size arrays, the length; null when the type is not an array
+ */
+export const getArrayElement = (parameter: AbiParameter): { element: AbiParameter; length?: number } | null => {
+  const match = parameter.type.match(/^(.*)\[(\d*)\]$/);
+  if (!match) return null;
+
+  return {
+    element: { ...parameter, name: '', type: match[1] },
+    length: match[2] ? Number(match[2]) : undefined
+  };
+};
+
+/**
+ * Writes an argument value as the text stored in its block input
+ * @param value The argument value
+ * @returns Strings as they are, other values as JSON
+ */
+export const formatArgumentValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value ?? '');
+
+/**
+ * Labels a function output for display, e.g. "amount (uint96)"
+ * @param output The output from the ABI
+ * @param index Position of the output
+ * @returns The output's name, or its position when unnamed, with its type
+ */
+export const describeOutput = (output: AbiParameter, index: number): string =>
+  `${output.name || `output ${index}`} (${output.type})`;
+
+/**
+ * Picks the returnValueTest value type matching a Solidity type
+ * @param abiType The Solidity type, e.g. uint256
+ * @returns The value type, or null for types without a direct counterpart
+ */
+export const getReturnValueTypeForAbiType = (abiType: string): ReturnValueType | null => {
+  if (abiType.endsWith(']')) return 'array';
+  if (/^u?int\d*$/.test(abiType)) return 'bigint';
+  if (abiType === 'bool') return 'boolean';
+  if (abiType === 'address') return 'address';
+  if (abiType === 'string') return 'string';
+  if (/^bytes\d*$/.test(abiType)) return 'bytes';
+  return null;
+};
@@ -0,0 +1,66 @@
+/**
+ * Contract ABIs loaded into contract blocks, kept in localStorage per chain and
+ * contract address so they can be reused without pasting them again
+ */
+
+import { AbiFragment, extractContractAbi } from './abi';
+
+const ABI_CACHE_STORAGE_KEY = 'taco-playground:abi-cache';
+// Number of contracts kept; the least recently saved is dropped first
+const MAX_CACHED_ABIS = 50;
+
+interface CachedAbi {
+  abi: AbiFragment[];
+  savedAt: number;
+}
+
+const getCacheKey = (chain: number, address: string): string => `${chain}:${address.toLowerCase()}`;
+
+const loadCache = (): Record<string, CachedAbi> => {
+  try {
+    const stored = localStorage.getItem(ABI_CACHE_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.error('Failed to load cached ABIs:', error);
+    return {};
+  }
+};
+
+/**
+ * Reads the cached ABI of a contract
+ * @param chain The chain ID the contract is deployed on
+ * @param address The contract address
+ * @returns The ABI, or null if none is cached or the cached entry is not usable
+ */
+export const loadCachedAbi = (chain: number, address: string): AbiFragment[] | null => {
+  const entry = loadCache()[getCacheKey(chain, address)];
+  if (!entry) return null;
+
+  try {
+    return extractContractAbi(JSON.stringify(entry.abi));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Caches the ABI of a contract, replacing any ABI cached for it before
+ * @param chain The chain ID the contract is deployed on
+ * @param address The contract address
+ * @param abi The contract ABI
+ */
+export const saveCachedAbi = (chain: number, address: string, abi: AbiFragment[]): void => {
+  const cache = loadCache();
+  cache[getCacheKey(chain, address)] = { abi, savedAt: Date.now() };
+
+  const kept = Object.entries(cache)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_CACHED_ABIS);
+  try {
+    localStorage.setItem(ABI_CACHE_STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+  } catch (error) {
+    // Caching is best effort; the ABI is still used for the current block
+    console.error('Failed to cache ABI:', error);
+  }
+};
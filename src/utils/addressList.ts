@@ -0,0 +1,61 @@
+/**
+ * Lists of wallet addresses pasted or uploaded (e.g. as CSV) into allowlist blocks
+ */
+
+import { utils } from 'ethers';
+
+// TACo compound conditions take at most 5 operands, and an allowlist compiles to one operand per address
+export const MAX_ALLOWLIST_ADDRESSES = 5;
+
+export interface AddressList {
+  // Checksummed addresses, in the order they first appear
+  addresses: string[];
+  // Entries that are not addresses or fail their EIP-55 checksum
+  invalid: string[];
+  // Number of repeated addresses that were dropped
+  duplicates: number;
+}
+
+/**
+ * Reads the addresses out of pasted text or a CSV file
+ * @param text Entries separated by newlines, commas, semicolons or whitespace. Only entries
+ * starting with 0x are read, so CSV headers, labels and other columns are skipped
+ * @returns The unique checksummed addresses, the invalid entries and the number of duplicates
+ */
+export const parseAddressList = (text: string): AddressList => {
+  const list: AddressList = { addresses: [], invalid: [], duplicates: 0 };
+  const seen = new Set<string>();
+
+  const entries = text
+    .split(/[\s,;]+/)
+    .map(entry => entry.replace(/^["']+|["']+$/g, ''))
+    .filter(entry => /^0x/i.test(entry));
+
+  for (const entry of entries) {
+    let address: string;
+    try {
+      // Rejects mixed-case addresses whose checksum does not match
+      address = utils.getAddress(entry);
+    } catch {
+      list.invalid.push(entry);
+      continue;
+    }
+
+    if (seen.has(address)) {
+      list.duplicates++;
+    } else {
+      seen.add(address);
+      list.addresses.push(address);
+    }
+  }
+
+  return list;
+};
+
+/**
+ * Writes an address list back as text, one entry per line
+ * @param list The parsed list; invalid entries are kept after the addresses so they can be fixed
+ * @returns The text of the list
+ */
+export const formatAddressList = (list: AddressList): string =>
+  [...list.addresses, ...list.invalid].join('\n');
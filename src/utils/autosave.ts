@@ -0,0 +1,134 @@
+/**
+ * Rolling recovery snapshots of the workspace, kept in localStorage so a
+ * refresh or crash does not lose work
+ */
+
+import { domains } from '@nucypher/taco';
+import { Block } from '../components/blocks/BlockTypes';
+import { isBlockLike } from '../components/blocks/blockUtils';
+import { SettingsConfig } from '../components/Settings';
+import { ContextVariable, parseContextVariables } from './contextVariables';
+
+const RECOVERY_STORAGE_KEY = 'taco-playground:recovery';
+// Number of snapshots kept; the oldest is dropped first
+const MAX_SNAPSHOTS = 5;
+// A session keeps updating its newest snapshot until it is this old, then starts a new one
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface RecoverySnapshot {
+  id: string;
+  sessionId: string;
+  createdAt: number;
+  savedAt: number;
+  blocks: Block[];
+  settings: SettingsConfig;
+  contextVariables: ContextVariable[];
+}
+
+let snapshotCounter = 0;
+
+/**
+ * Creates an ID identifying this page load, so snapshots from earlier sessions are left untouched
+ * @returns The session ID
+ */
+export const createSessionId = (): string => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Snapshots whose blocks are malformed anywhere in the tree, inputs and connected blocks included, are
+// skipped so restoring one cannot break the workspace
+const parseSnapshot = (value: unknown): RecoverySnapshot | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const snapshot = value as Record<string, unknown>;
+  const settings = snapshot.settings as Partial<SettingsConfig> | undefined;
+  if (
+    typeof snapshot.id !== 'string' ||
+    typeof snapshot.sessionId !== 'string' ||
+    typeof snapshot.createdAt !== 'number' ||
+    typeof snapshot.savedAt !== 'number' ||
+    !Array.isArray(snapshot.blocks) ||
+    !snapshot.blocks.every(isBlockLike) ||
+    (settings?.domain !== domains.DEVNET && settings?.domain !== domains.TESTNET) ||
+    typeof settings.ritualId !== 'number'
+  ) {
+    return null;
+  }
+
+  return {
+    id: snapshot.id,
+    sessionId: snapshot.sessionId,
+    createdAt: snapshot.createdAt,
+    savedAt: snapshot.savedAt,
+    blocks: snapshot.blocks,
+    settings: { domain: settings.domain, ritualId: settings.ritualId },
+    // Snapshots saved before variables could be declared have none
+    contextVariables: parseContextVariables(snapshot.contextVariables)
+  };
+};
+
+/**
+ * Reads the recovery snapshots from localStorage
+ * @returns The snapshots, newest first
+ */
+export const loadSnapshots = (): RecoverySnapshot[] => {
+  try {
+    const stored = localStorage.getItem(RECOVERY_STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .map(parseSnapshot)
+      .filter((snapshot): snapshot is RecoverySnapshot => snapshot !== null)
+      .sort((a, b) => b.savedAt - a.savedAt);
+  } catch (error) {
+    console.error('Failed to load recovery snapshots:', error);
+    return [];
+  }
+};
+
+/**
+ * Records the current workspace; empty workspaces are not recorded so they
+ * never replace something worth restoring
+ * @param sessionId The ID of the current page load
+ * @param blocks The workspace block tree
+ * @param settings The current network settings
+ * @param contextVariables The declared custom context variables
+ */
+export const saveSnapshot = (
+  sessionId: string,
+  blocks: Block[],
+  settings: SettingsConfig,
+  contextVariables: ContextVariable[] = []
+): void => {
+  if (!blocks.length) return;
+
+  const now = Date.now();
+  const snapshots = loadSnapshots();
+  const latest = snapshots.find(snapshot => snapshot.sessionId === sessionId);
+  const isCurrent = latest && now - latest.createdAt < SNAPSHOT_INTERVAL_MS;
+  const snapshot: RecoverySnapshot = {
+    id: isCurrent ? latest.id : `snapshot-${now}-${snapshotCounter++}`,
+    sessionId,
+    createdAt: isCurrent ? latest.createdAt : now,
+    savedAt: now,
+    blocks,
+    settings,
+    contextVariables
+  };
+
+  const next = [snapshot, ...snapshots.filter(s => s.id !== snapshot.id)].slice(0, MAX_SNAPSHOTS);
+  try {
+    localStorage.setItem(RECOVERY_STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    // Autosave is best effort; a full storage must not interrupt editing
+    console.error('Failed to save recovery snapshot:', error);
+  }
+};
+
+/**
+ * Removes all recovery snapshots
+ */
+export const clearSnapshots = (): void => {
+  localStorage.removeItem(RECOVERY_STORAGE_KEY);
+};
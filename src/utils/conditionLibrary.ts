@@ -0,0 +1,224 @@
+/**
+ * Persistent library of saved workspaces, kept in localStorage
+ */
+
+import { domains } from '@nucypher/taco';
+import { Block } from '../components/blocks/BlockTypes';
+import { isBlockLike } from '../components/blocks/blockUtils';
+import { SettingsConfig } from '../components/Settings';
+import { ContextVariable, parseContextVariables } from './contextVariables';
+
+const LIBRARY_STORAGE_KEY = 'taco-playground:library';
+export const LIBRARY_FILE_VERSION = 1;
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  blocks: Block[];
+  settings?: SettingsConfig;
+  // Custom context variables declared for the workspace; entries saved before declarations have none
+  contextVariables: ContextVariable[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface LibraryFile {
+  version: number;
+  entries: LibraryEntry[];
+}
+
+let entryCounter = 0;
+
+const createEntryId = (): string => `entry-${Date.now()}-${entryCounter++}`;
+
+const parseSettings = (value: unknown): SettingsConfig | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const { domain, ritualId } = value as Record<string, unknown>;
+  if ((domain !== domains.DEVNET && domain !== domains.TESTNET) || typeof ritualId !== 'number') {
+    return undefined;
+  }
+  return { domain, ritualId };
+};
+
+/**
+ * Validates a stored or imported entry; every block is checked down through its inputs and connected
+ * blocks, so a malformed entry is skipped here instead of breaking the workspace when it is loaded
+ * @param value The raw entry
+ * @returns The entry, or null if it is not usable
+ */
+const parseEntry = (value: unknown): LibraryEntry | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const entry = value as Record<string, unknown>;
+  if (typeof entry.name !== 'string' || !entry.name.trim()) return null;
+  if (!Array.isArray(entry.blocks) || !entry.blocks.every(isBlockLike)) return null;
+
+  const now = Date.now();
+  return {
+    id: typeof entry.id === 'string' ? entry.id : createEntryId(),
+    name: entry.name,
+    description: typeof entry.description === 'string' ? entry.description : '',
+    tags: Array.isArray(entry.tags) ? entry.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    blocks: entry.blocks,
+    settings: parseSettings(entry.settings),
+    contextVariables: parseContextVariables(entry.contextVariables),
+    createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : now,
+    updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : now
+  };
+};
+
+/**
+ * Reads the library from localStorage
+ * @returns The saved entries, newest first
+ */
+export const loadLibrary = (): LibraryEntry[] => {
+  try {
+    const stored = localStorage.getItem(LIBRARY_STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .map(parseEntry)
+      .filter((entry): entry is LibraryEntry => entry !== null)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error('Failed to load condition library:', error);
+    return [];
+  }
+};
+
+/**
+ * Writes the library to localStorage
+ * @param entries The complete set of entries
+ */
+export const saveLibrary = (entries: LibraryEntry[]): void => {
+  try {
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Failed to save condition library:', error);
+    throw new Error('Could not save the condition library; browser storage may be full');
+  }
+};
+
+/**
+ * Creates a new library entry from the current workspace
+ * @param details Name, description and tags for the entry
+ * @param blocks The workspace block tree
+ * @param settings The network settings the workspace was built for
+ * @param contextVariables The declared custom context variables
+ * @returns The new entry
+ */
+export const createLibraryEntry = (
+  details: Pick<LibraryEntry, 'name' | 'description' | 'tags'>,
+  blocks: Block[],
+  settings?: SettingsConfig,
+  contextVariables: ContextVariable[] = []
+): LibraryEntry => {
+  const now = Date.now();
+  return {
+    id: createEntryId(),
+    name: details.name.trim(),
+    description: details.description.trim(),
+    tags: details.tags.map(tag => tag.trim()).filter(Boolean),
+    blocks: JSON.parse(JSON.stringify(blocks)),
+    settings: settings ? { ...settings } : undefined,
+    contextVariables: contextVariables.map(variable => ({ ...variable })),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Copies an entry under a new ID and name
+ * @param entry The entry to copy
+ * @returns The copy
+ */
+export const duplicateLibraryEntry = (entry: LibraryEntry): LibraryEntry => {
+  const now = Date.now();
+  return {
+    ...JSON.parse(JSON.stringify(entry)),
+    id: createEntryId(),
+    name: `${entry.name} (copy)`,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Filters entries by a free-text query; every word must match the name, description or a tag
+ * @param entries The entries to search
+ * @param query The search text
+ * @returns The matching entries
+ */
+export const searchLibrary = (entries: LibraryEntry[], query: string): LibraryEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return entries;
+
+  return entries.filter(entry => {
+    const haystack = [entry.name, entry.description, ...entry.tags].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+/**
+ * Serializes the library for download
+ * @param entries The entries to export
+ * @returns The library file contents
+ */
+export const exportLibrary = (entries: LibraryEntry[]): string => {
+  const file: LibraryFile = { version: LIBRARY_FILE_VERSION, entries };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses an exported library file
+ * @param text The file contents
+ * @returns The valid entries in the file, and how many invalid ones were skipped
+ */
+export const parseLibraryFile = (text: string): { entries: LibraryEntry[]; skipped: number } => {
+  let parsed: Partial<LibraryFile>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Library file is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed.version !== 'number' || !Array.isArray(parsed.entries)) {
+    throw new Error('Not a condition library file');
+  }
+  if (parsed.version > LIBRARY_FILE_VERSION) {
+    throw new Error(`Library file version ${parsed.version} is newer than this playground supports`);
+  }
+
+  const entries = parsed.entries
+    .map(parseEntry)
+    .filter((entry): entry is LibraryEntry => entry !== null);
+  const skipped = parsed.entries.length - entries.length;
+  if (skipped) {
+    console.warn(`Skipped ${skipped} invalid library entries`);
+  }
+  return { entries, skipped };
+};
+
+/**
+ * Merges imported entries into the library; an entry with a known ID replaces
+ * the existing one only if it was updated more recently
+ * @param existing The current library
+ * @param imported The entries from an imported file
+ * @returns The merged library, newest first
+ */
+export const mergeLibraryEntries = (existing: LibraryEntry[], imported: LibraryEntry[]): LibraryEntry[] => {
+  const merged = new Map(existing.map(entry => [entry.id, entry]));
+  imported.forEach(entry => {
+    const current = merged.get(entry.id);
+    if (!current || entry.updatedAt > current.updatedAt) {
+      merged.set(entry.id, entry);
+    }
+  });
+  return Array.from(merged.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+};
@@ -0,0 +1,148 @@
+/**
+ * Custom context variables: values a condition reads as :name that are supplied by
+ * whoever decrypts, as opposed to :userAddress, which their wallet signs for
+ */
+
+import { USER_ADDRESS_PARAM_DEFAULT, USER_ADDRESS_PARAM_EXTERNAL_EIP4361 } from '@nucypher/taco-auth';
+import { utils } from 'ethers';
+import { isContextVariable } from './returnValues';
+
+export type ContextVariableType = 'string' | 'integer' | 'boolean' | 'address';
+
+export const CONTEXT_VARIABLE_TYPES: ContextVariableType[] = ['string', 'integer', 'boolean', 'address'];
+
+export const CONTEXT_VARIABLE_TYPE_LABELS: Record<ContextVariableType, string> = {
+  string: 'String',
+  integer: 'Integer',
+  boolean: 'Boolean',
+  address: 'Address'
+};
+
+export interface ContextVariable {
+  // Including the leading colon, e.g. :inviteCode
+  name: string;
+  type: ContextVariableType;
+  description: string;
+}
+
+// Filled in from a wallet signature, never typed in
+export const AUTH_CONTEXT_VARIABLES = [USER_ADDRESS_PARAM_DEFAULT, USER_ADDRESS_PARAM_EXTERNAL_EIP4361];
+
+// Context variables may also be embedded in longer strings, e.g. an API URL
+const EMBEDDED_CONTEXT_VARIABLE_PATTERN = /:[a-zA-Z_][a-zA-Z0-9_]*/g;
+
+/**
+ * Lists the context variables a condition reads, in the order they first appear
+ * @param value A condition, or any part of one
+ * @returns The variable names, including the leading colon
+ */
+export const findContextVariables = (value: unknown): string[] => {
+  const found = new Set<string>();
+  const visit = (part: unknown) => {
+    if (typeof part === 'string') {
+      part.match(EMBEDDED_CONTEXT_VARIABLE_PATTERN)?.forEach(name => found.add(name));
+    } else if (Array.isArray(part)) {
+      part.forEach(visit);
+    } else if (part && typeof part === 'object') {
+      Object.values(part).forEach(visit);
+    }
+  };
+  visit(value);
+  return Array.from(found);
+};
+
+/**
+ * Lists the variables set by the steps of sequential conditions, which the nodes fill in themselves
+ * @param value A condition, or any part of one
+ * @returns The variable names, including the leading colon
+ */
+export const findStepVariables = (value: unknown): string[] => {
+  const found = new Set<string>();
+  const visit = (part: unknown) => {
+    if (Array.isArray(part)) {
+      part.forEach(visit);
+    } else if (part && typeof part === 'object') {
+      const record = part as Record<string, unknown>;
+      if (record.conditionType === 'sequential' && Array.isArray(record.conditionVariables)) {
+        record.conditionVariables.forEach(step => {
+          const varName = (step as Record<string, unknown> | null)?.varName;
+          if (typeof varName === 'string') found.add(`:${varName}`);
+        });
+      }
+      Object.values(record).forEach(visit);
+    }
+  };
+  visit(value);
+  return Array.from(found);
+};
+
+/**
+ * Lists the variables whoever decrypts has to supply
+ * @param condition The condition lingo
+ * @returns The variable names, excluding wallet and sequential step variables
+ */
+export const findCustomContextVariables = (condition: unknown): string[] => {
+  const stepVariables = findStepVariables(condition);
+  return findContextVariables(condition)
+    .filter(name => !AUTH_CONTEXT_VARIABLES.includes(name) && !stepVariables.includes(name));
+};
+
+/**
+ * Checks a declared variable name
+ * @param name The name, including the leading colon
+ * @param declared All declared names, to detect duplicates
+ * @returns A description of the problem, or null when the name can be used
+ */
+export const checkContextVariableName = (name: string, declared: string[]): string | null => {
+  if (!isContextVariable(name)) return 'Names start with a letter or underscore and use letters, digits and underscores';
+  if (AUTH_CONTEXT_VARIABLES.includes(name)) return `${name} is filled in from the wallet signature`;
+  if (declared.filter(other => other === name).length > 1) return `${name} is declared more than once`;
+  return null;
+};
+
+/**
+ * Reads a value typed in for a context variable at decryption
+ * @param text The value as typed
+ * @param type The declared type of the variable
+ * @returns The value passed to the condition context
+ * @throws When the text is not a value of the type
+ */
+export const parseContextVariableValue = (text: string, type: ContextVariableType): string | number | boolean => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('A value is required');
+
+  switch (type) {
+    case 'integer': {
+      const numeric = Number(trimmed);
+      if (!/^-?\d+$/.test(trimmed) || !Number.isSafeInteger(numeric)) {
+        throw new Error(`"${text}" is not an integer up to ${Number.MAX_SAFE_INTEGER}`);
+      }
+      return numeric;
+    }
+    case 'boolean':
+      if (trimmed !== 'true' && trimmed !== 'false') throw new Error('Use true or false');
+      return trimmed === 'true';
+    case 'address':
+      try {
+        return utils.getAddress(trimmed);
+      } catch {
+        throw new Error(`"${text}" is not a valid address`);
+      }
+    default:
+      return text;
+  }
+};
+
+/**
+ * Reads declared variables back from saved or shared state, dropping malformed entries
+ * @param value The stored declarations
+ * @returns The declarations that can be used
+ */
+export const parseContextVariables = (value: unknown): ContextVariable[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(entry => {
+    const { name, type, description } = (entry ?? {}) as Partial<ContextVariable>;
+    if (typeof name !== 'string' || !CONTEXT_VARIABLE_TYPES.includes(type as ContextVariableType)) return [];
+    return [{ name, type: type as ContextVariableType, description: typeof description === 'string' ? description : '' }];
+  });
+};
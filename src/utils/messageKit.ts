@@ -0,0 +1,45 @@
+/**
+ * Helpers for inspecting TACo message kits outside of encryption/decryption
+ */
+
+import { conditions, ThresholdMessageKit } from '@nucypher/taco';
+import { TacoCondition } from '../types/taco';
+
+const PENDING_CONDITION_KEY = 'taco-playground:pending-condition';
+
+/**
+ * Extracts the condition that locks a message kit
+ * @param messageKit A parsed ThresholdMessageKit
+ * @returns The condition as plain JSON, as it would appear in the playground preview
+ */
+export const getMessageKitCondition = (messageKit: ThresholdMessageKit): TacoCondition => {
+  const expression = conditions.conditionExpr.ConditionExpression.fromCoreConditions(
+    messageKit.acp.conditions
+  );
+  return expression.toObj().condition as unknown as TacoCondition;
+};
+
+/**
+ * Stores a condition so the playground page can pick it up after navigation
+ * @param condition The condition to open in the playground
+ */
+export const stashConditionForPlayground = (condition: TacoCondition): void => {
+  sessionStorage.setItem(PENDING_CONDITION_KEY, JSON.stringify(condition));
+};
+
+/**
+ * Retrieves and clears a condition stashed by stashConditionForPlayground
+ * @returns The stashed condition, or null if there is none
+ */
+export const takeStashedCondition = (): TacoCondition | null => {
+  const stashed = sessionStorage.getItem(PENDING_CONDITION_KEY);
+  if (!stashed) return null;
+
+  sessionStorage.removeItem(PENDING_CONDITION_KEY);
+  try {
+    return JSON.parse(stashed) as TacoCondition;
+  } catch (error) {
+    console.error('Failed to parse stashed condition:', error);
+    return null;
+  }
+};
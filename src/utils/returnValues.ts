@@ -0,0 +1,151 @@
+/**
+ * Typed values for a condition's returnValueTest: parsing what the user typed into
+ * the JSON value TACo compares against, and recognizing the type of an existing value
+ */
+
+import { utils } from 'ethers';
+import { Comparator, ReturnValue } from '../types/taco';
+import { toConditionInteger } from './units';
+
+export type ReturnValueType = 'integer' | 'bigint' | 'boolean' | 'address' | 'bytes' | 'string' | 'array';
+
+export const RETURN_VALUE_TYPES: ReturnValueType[] = ['integer', 'bigint', 'boolean', 'address', 'bytes', 'string', 'array'];
+
+export const RETURN_VALUE_TYPE_LABELS: Record<ReturnValueType, string> = {
+  integer: 'Integer',
+  bigint: 'Big integer',
+  boolean: 'Boolean',
+  address: 'Address',
+  bytes: 'Bytes (hex)',
+  string: 'String',
+  array: 'Array (JSON)'
+};
+
+export const COMPARATORS: Comparator[] = ['==', '!=', '>', '>=', '<', '<='];
+export const EQUALITY_COMPARATORS: Comparator[] = ['==', '!='];
+
+// Context variables (e.g. :userAddress) are resolved by the nodes at decryption time
+const CONTEXT_VARIABLE_PATTERN = /^:[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Whether a value is a context variable such as :userAddress
+ * @param value The value to check
+ * @returns True for context variable names
+ */
+export const isContextVariable = (value: unknown): boolean =>
+  typeof value === 'string' && CONTEXT_VARIABLE_PATTERN.test(value);
+
+/**
+ * Lists the comparators that make sense for a value type; only numbers are ordered
+ * @param type The value type
+ * @returns The applicable comparators
+ */
+export const getComparatorsForType = (type: ReturnValueType): Comparator[] =>
+  type === 'integer' || type === 'bigint' ? COMPARATORS : EQUALITY_COMPARATORS;
+
+const isArrayItem = (value: unknown): value is ReturnValue =>
+  typeof value === 'string' ||
+  typeof value === 'boolean' ||
+  (typeof value === 'number' && Number.isFinite(value)) ||
+  (Array.isArray(value) && value.every(isArrayItem));
+
+/**
+ * Parses a typed-in value into the JSON value used in a returnValueTest
+ * @param text The value as typed
+ * @param type The type the value should have
+ * @returns The condition value; context variables are passed through unchanged
+ * @throws When the text is not a valid value of the type
+ */
+export const parseReturnValue = (text: string, type: ReturnValueType): ReturnValue => {
+  const trimmed = text.trim();
+  if (isContextVariable(trimmed)) return trimmed;
+
+  switch (type) {
+    case 'integer': {
+      const numeric = Number(trimmed);
+      if (!/^-?\d+$/.test(trimmed) || !Number.isSafeInteger(numeric)) {
+        throw new Error(`"${text}" is not an integer; use Big integer for values beyond ${Number.MAX_SAFE_INTEGER}`);
+      }
+      return numeric;
+    }
+    case 'bigint': {
+      if (!/^-?\d+$/.test(trimmed)) {
+        throw new Error(`"${text}" is not an integer`);
+      }
+      if (!trimmed.startsWith('-')) return toConditionInteger(trimmed);
+      return Number.isSafeInteger(Number(trimmed)) ? Number(trimmed) : trimmed;
+    }
+    case 'boolean':
+      if (trimmed !== 'true' && trimmed !== 'false') {
+        throw new Error('A boolean must be true or false');
+      }
+      return trimmed === 'true';
+    case 'address':
+      // Checksum casing is normalized here, so only the hex digits are checked
+      if (!utils.isAddress(trimmed.toLowerCase())) {
+        throw new Error(`"${text}" is not a valid address`);
+      }
+      return utils.getAddress(trimmed.toLowerCase());
+    case 'bytes':
+      if (!/^0x([0-9a-fA-F]{2})*$/.test(trimmed)) {
+        throw new Error(`"${text}" is not 0x-prefixed hex bytes`);
+      }
+      return trimmed.toLowerCase();
+    case 'array': {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch (error) {
+        throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (!Array.isArray(parsed) || !parsed.every(isArrayItem)) {
+        throw new Error('An array may only contain strings, numbers, booleans and arrays');
+      }
+      return parsed;
+    }
+    default:
+      if (trimmed.startsWith(':')) {
+        throw new Error(`"${text}" is not a valid context variable name`);
+      }
+      return text;
+  }
+};
+
+/**
+ * Recognizes the type of an existing returnValueTest value and renders it as editable text
+ * @param value The value from a condition
+ * @returns The value type and text, or null for values that cannot be represented
+ */
+export const describeReturnValue = (value: unknown): { type: ReturnValueType; text: string } | null => {
+  if (typeof value === 'boolean') return { type: 'boolean', text: String(value) };
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) ? { type: 'integer', text: String(value) } : null;
+  }
+  if (Array.isArray(value)) {
+    return value.every(isArrayItem) ? { type: 'array', text: JSON.stringify(value) } : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  if (value === ':userAddress' || /^0x[0-9a-fA-F]{40}$/.test(value)) return { type: 'address', text: value };
+  if (/^-?\d+$/.test(value)) return { type: 'bigint', text: value };
+  if (/^0x([0-9a-fA-F]{2})*$/.test(value)) return { type: 'bytes', text: value };
+  return { type: 'string', text: value };
+};
+
+/**
+ * Checks that a comparator can be applied to a returnValueTest value
+ * @param comparator The comparator
+ * @param value The value compared against
+ * @returns An error message, or null when the combination is valid
+ */
+export const checkComparator = (comparator: unknown, value: unknown): string | null => {
+  if (!COMPARATORS.includes(comparator as Comparator)) {
+    return `Unsupported comparator: ${JSON.stringify(comparator)}`;
+  }
+  if (EQUALITY_COMPARATORS.includes(comparator as Comparator) || isContextVariable(value)) {
+    return null;
+  }
+
+  const ordered = typeof value === 'number' || (typeof value === 'string' && /^-?\d+$/.test(value));
+  return ordered ? null : `Comparator ${comparator} only applies to numbers`;
+};
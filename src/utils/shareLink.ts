@@ -0,0 +1,192 @@
+/**
+ * Encodes and decodes workspace state in the URL fragment so a workspace can be shared as a link
+ */
+
+import { domains } from '@nucypher/taco';
+import { Block } from '../components/blocks/BlockTypes';
+import { isBlockLike } from '../components/blocks/blockUtils';
+import { SettingsConfig } from '../components/Settings';
+import { ContextVariable, parseContextVariables } from './contextVariables';
+
+export const SHARE_FORMAT_VERSION = 1;
+export const SHARE_FRAGMENT_PREFIX = '#share=';
+
+// Longest encoded payload we produce or accept, so links stay pasteable
+const MAX_ENCODED_LENGTH = 8192;
+// Upper bound on the decompressed payload, to reject decompression bombs
+const MAX_DECODED_BYTES = 512 * 1024;
+
+const ERR_TOO_LARGE = 'Shared workspace is too large';
+
+export interface SharedWorkspace {
+  blocks: Block[];
+  settings: SettingsConfig;
+  contextVariables?: ContextVariable[];
+}
+
+interface SharePayload {
+  v: number;
+  blocks: Block[];
+  settings: {
+    domain: string;
+    ritualId: number;
+  };
+  // Left out when no variables are declared; links without it still open
+  contextVariables?: ContextVariable[];
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const deflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const reader = new Blob([bytes]).stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'))
+    .getReader();
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.length;
+    if (total > MAX_DECODED_BYTES) {
+      await reader.cancel();
+      throw new Error(ERR_TOO_LARGE);
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * Validates a decoded payload and converts it back into workspace state
+ * @param payload The parsed JSON payload
+ * @returns The workspace state it describes
+ */
+const parsePayload = (payload: unknown): SharedWorkspace => {
+  if (!payload || typeof payload !== 'object') {
+    throw new Error('Shared workspace is malformed');
+  }
+
+  const { v, blocks, settings, contextVariables } = payload as Partial<SharePayload>;
+  if (typeof v !== 'number') {
+    throw new Error('Shared workspace has no version');
+  }
+  if (v > SHARE_FORMAT_VERSION) {
+    throw new Error(`Shared workspace version ${v} is newer than this playground supports (${SHARE_FORMAT_VERSION})`);
+  }
+  if (!Array.isArray(blocks) || !blocks.every(isBlockLike)) {
+    throw new Error('Shared workspace has an invalid block tree');
+  }
+
+  const domain = settings?.domain === domains.TESTNET ? domains.TESTNET : domains.DEVNET;
+  if (settings?.domain !== domain) {
+    throw new Error(`Shared workspace uses an unknown domain: ${String(settings?.domain)}`);
+  }
+  if (typeof settings.ritualId !== 'number' || !Number.isInteger(settings.ritualId)) {
+    throw new Error('Shared workspace has an invalid ritual ID');
+  }
+
+  return {
+    blocks,
+    settings: { domain, ritualId: settings.ritualId },
+    contextVariables: parseContextVariables(contextVariables)
+  };
+};
+
+/**
+ * Compresses workspace state into a URL fragment
+ * @param workspace The blocks, settings and declared context variables to share
+ * @returns The fragment, including the leading '#share='
+ */
+export const encodeShareFragment = async (workspace: SharedWorkspace): Promise<string> => {
+  const payload: SharePayload = {
+    v: SHARE_FORMAT_VERSION,
+    blocks: workspace.blocks,
+    settings: {
+      domain: workspace.settings.domain,
+      ritualId: workspace.settings.ritualId
+    },
+    ...(workspace.contextVariables?.length ? { contextVariables: workspace.contextVariables } : {})
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const encoded = toBase64Url(await deflate(json));
+  if (encoded.length > MAX_ENCODED_LENGTH) {
+    throw new Error('Workspace is too large to share as a link');
+  }
+
+  return `${SHARE_FRAGMENT_PREFIX}${encoded}`;
+};
+
+/**
+ * Restores workspace state from a URL fragment
+ * @param hash The URL fragment, e.g. window.location.hash
+ * @returns The shared workspace, or null if the fragment is not a share link
+ */
+export const decodeShareFragment = async (hash: string): Promise<SharedWorkspace | null> => {
+  if (!hash.startsWith(SHARE_FRAGMENT_PREFIX)) return null;
+
+  const encoded = hash.slice(SHARE_FRAGMENT_PREFIX.length);
+  if (encoded.length > MAX_ENCODED_LENGTH) {
+    throw new Error(ERR_TOO_LARGE);
+  }
+
+  let json: string;
+  try {
+    const bytes = await inflate(fromBase64Url(encoded));
+    json = new TextDecoder().decode(bytes);
+  } catch (error) {
+    if (error instanceof Error && error.message === ERR_TOO_LARGE) {
+      throw error;
+    }
+    throw new Error('Shared workspace link is corrupted');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new Error('Shared workspace is malformed');
+  }
+
+  return parsePayload(payload);
+};
+
+/**
+ * Builds a full shareable URL for the current page
+ * @param workspace The blocks, settings and declared context variables to share
+ * @returns The URL with the encoded workspace in its fragment
+ */
+export const buildShareUrl = async (workspace: SharedWorkspace): Promise<string> => {
+  const fragment = await encodeShareFragment(workspace);
+  return `${window.location.origin}${window.location.pathname}${fragment}`;
+};
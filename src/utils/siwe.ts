@@ -0,0 +1,257 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) messages, which prove the user's address to the nodes when a
+ * condition reads :userAddress or :userAddressExternalEIP4361
+ */
+
+import {
+  AuthSignature,
+  EIP4361AuthProvider,
+  SingleSignOnEIP4361AuthProvider
+} from '@nucypher/taco-auth';
+import { ethers, utils } from 'ethers';
+import { generateNonce, SiweMessage } from 'siwe';
+import { findSiweSession, saveSiweSession } from './siweSessions';
+
+// Nodes reject sign-ins issued longer ago than this
+export const MAX_SIWE_AGE_MINUTES = 120;
+
+// How the user's address is proven for :userAddress; eip1271 is a message pasted like presigned whose
+// signature may also be accepted by the address's contract, as smart accounts sign
+export type UserAddressAuthMethod = 'wallet' | 'presigned' | 'eip1271';
+
+export interface SiweOptions {
+  // Shown in the wallet when signing; empty uses the SDK's wording
+  statement: string;
+  // Minutes until the sign-in expires; empty leaves it without an expiration time
+  expiryMinutes: string;
+  // The site asking for the sign-in; empty uses the current host
+  domain: string;
+}
+
+export const DEFAULT_SIWE_OPTIONS: SiweOptions = { statement: '', expiryMinutes: '', domain: '' };
+
+// A SIWE message signed elsewhere, e.g. by a server or another app's sign-in
+export interface SignedSiweMessage {
+  message: string;
+  signature: string;
+}
+
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  // ISO 8601 timestamps
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+export interface CheckedSiweMessage extends SiweMessageFields {
+  // Whether the contract at the address accepted the signature (EIP-1271) rather than the address signing it
+  isContractSignature: boolean;
+}
+
+// Contracts return this from isValidSignature for a signature they accept (EIP-1271)
+const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+const EIP1271_ABI = ['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'];
+
+/**
+ * Reads the expiry typed in the SIWE options
+ * @param text Minutes until the sign-in expires
+ * @returns The minutes, or undefined when no expiry is set
+ * @throws When the text is not a whole number of minutes the nodes accept
+ */
+export const parseSiweExpiry = (text: string): number | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  const minutes = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || minutes < 1 || minutes > MAX_SIWE_AGE_MINUTES) {
+    throw new Error(`Expiry must be between 1 and ${MAX_SIWE_AGE_MINUTES} minutes`);
+  }
+  return minutes;
+};
+
+/**
+ * Reads the fields of a SIWE message
+ * @param message The message in the EIP-4361 format
+ * @returns The fields the playground uses
+ * @throws When the message is not a SIWE message
+ */
+export const parseSiweMessage = (message: string): SiweMessageFields => {
+  let parsed: SiweMessage;
+  try {
+    parsed = new SiweMessage(message.trim());
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    // The parser reports other problems as its raw parse state, which says nothing to the user
+    throw new Error(/EIP-55/.test(reason)
+      ? 'The address must be checksummed (EIP-55)'
+      : 'Not a SIWE message; it needs the EIP-4361 header, address, URI, Version, Chain ID, Nonce and Issued At');
+  }
+
+  const { domain, address, statement, uri, chainId, nonce, issuedAt, expirationTime } = parsed;
+  if (!issuedAt || isNaN(Date.parse(issuedAt))) {
+    throw new Error('The message needs a valid Issued At time');
+  }
+  if (expirationTime && isNaN(Date.parse(expirationTime))) {
+    throw new Error(`"${expirationTime}" is not a valid expiration time`);
+  }
+  return { domain, address, statement, uri, chainId, nonce, issuedAt, expirationTime };
+};
+
+// Asks the contract at the address whether it accepts the signature of the message
+const isValidContractSignature = async (
+  provider: ethers.providers.Provider,
+  address: string,
+  message: string,
+  signature: string
+): Promise<boolean> => {
+  try {
+    const contract = new ethers.Contract(address, EIP1271_ABI, provider);
+    return await contract.isValidSignature(utils.hashMessage(message), signature) === EIP1271_MAGIC_VALUE;
+  } catch {
+    // Addresses without code and contracts without the function accept nothing
+    return false;
+  }
+};
+
+/**
+ * Checks a pasted SIWE message and signature before they are sent to the nodes
+ * @param signed The message and its signature
+ * @param provider Connection to the message's chain; when given, a signature the address did not make
+ * is accepted if the contract at the address accepts it (EIP-1271)
+ * @param now The current time in milliseconds
+ * @returns The fields of the message
+ * @throws When the message cannot be read, the signature is not from its address, or it is no longer accepted
+ */
+export const checkSignedSiweMessage = async (
+  signed: SignedSiweMessage,
+  provider?: ethers.providers.Provider,
+  now: number = Date.now()
+): Promise<CheckedSiweMessage> => {
+  if (!signed.message.trim()) throw new Error('Paste a signed SIWE message');
+  if (!signed.signature.trim()) throw new Error('Paste the signature of the message');
+
+  const fields = parseSiweMessage(signed.message);
+  const message = signed.message.trim();
+  const signature = signed.signature.trim();
+  if (!utils.isHexString(signature)) {
+    throw new Error('The signature is not a valid hex signature');
+  }
+
+  let signer: string | undefined;
+  try {
+    signer = utils.verifyMessage(message, signature);
+  } catch {
+    // Contract signatures need not be a single 65 byte signature
+    signer = undefined;
+  }
+
+  const isContractSignature = signer !== fields.address;
+  if (isContractSignature) {
+    if (!provider) {
+      throw new Error(signer
+        ? `The signature was made by ${signer}, not ${fields.address}`
+        : 'The signature is not a valid hex signature');
+    }
+    const { chainId } = await provider.getNetwork();
+    if (chainId !== fields.chainId) {
+      throw new Error(`The signature is not from ${fields.address}; connect to chain ${fields.chainId} to check it with the account's contract`);
+    }
+    if (!await isValidContractSignature(provider, fields.address, message, signature)) {
+      throw new Error(`The signature was not made by ${fields.address}, and no contract there accepts it (EIP-1271)`);
+    }
+  }
+
+  if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) {
+    throw new Error('The message has expired');
+  }
+  if (Date.parse(fields.issuedAt) + MAX_SIWE_AGE_MINUTES * 60 * 1000 <= now) {
+    throw new Error(`The message was issued more than ${MAX_SIWE_AGE_MINUTES} minutes ago`);
+  }
+  return { ...fields, isContractSignature };
+};
+
+// Signs in with the wallet using the configured statement, expiry and domain, and reuses the sign-in
+// for the address and domain until it expires. TACo only accepts EIP4361AuthProvider instances for
+// :userAddress, so the SDK provider is extended
+export class ConfigurableEIP4361AuthProvider extends EIP4361AuthProvider {
+  private readonly web3Provider: ethers.providers.Provider;
+  private readonly wallet: ethers.Signer;
+  private readonly options: SiweOptions;
+
+  constructor(provider: ethers.providers.Provider, signer: ethers.Signer, options: SiweOptions) {
+    const domain = options.domain.trim() || window.location.host;
+    super(provider, signer, { domain, uri: window.location.origin });
+    this.web3Provider = provider;
+    this.wallet = signer;
+    this.options = { ...options, domain };
+  }
+
+  async getOrCreateAuthSignature(): Promise<AuthSignature> {
+    const address = await this.wallet.getAddress();
+    const statement = this.options.statement.trim().replace(/\s*\n\s*/g, ' ');
+    const expiryMinutes = parseSiweExpiry(this.options.expiryMinutes);
+    // A session signed with another statement or expiry is not what was asked for, so the wallet signs again
+    const sessionOptions = { statement, expiryMinutes: expiryMinutes ?? null };
+    const session = findSiweSession(address, this.options.domain, sessionOptions);
+    if (session) return session.authSignature;
+
+    const { chainId } = await this.web3Provider.getNetwork();
+    const issuedAt = new Date();
+    const expiresAt = issuedAt.getTime() + (expiryMinutes ?? MAX_SIWE_AGE_MINUTES) * 60 * 1000;
+
+    const message = new SiweMessage({
+      domain: this.options.domain,
+      address,
+      statement: statement ||
+        `${this.options.domain} wants you to sign in with your Ethereum account: ${address}`,
+      uri: window.location.origin,
+      version: '1',
+      chainId,
+      nonce: generateNonce(),
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiryMinutes !== undefined ? new Date(expiresAt).toISOString() : undefined
+    }).prepareMessage();
+    const signature = await this.wallet.signMessage(message);
+    const authSignature: AuthSignature = { signature, address, scheme: 'EIP4361', typedData: message };
+
+    saveSiweSession({ address, domain: this.options.domain, ...sessionOptions, authSignature, expiresAt });
+    return authSignature;
+  }
+}
+
+// Proves :userAddress with a SIWE message signed elsewhere, without asking the wallet; the message is
+// checked with checkSignedSiweMessage first. The SDK only sends EIP4361 signatures, so a smart account's
+// signature goes to the nodes as one too
+export class PresignedEIP4361AuthProvider extends EIP4361AuthProvider {
+  private readonly authSignature: AuthSignature;
+
+  constructor(provider: ethers.providers.Provider, signed: SignedSiweMessage) {
+    const { address, domain, uri } = parseSiweMessage(signed.message);
+    super(provider, new ethers.VoidSigner(address, provider), { domain, uri });
+    this.authSignature = {
+      signature: signed.signature.trim(),
+      address,
+      scheme: 'EIP4361',
+      typedData: signed.message.trim()
+    };
+  }
+
+  async getOrCreateAuthSignature(): Promise<AuthSignature> {
+    return this.authSignature;
+  }
+}
+
+/**
+ * Creates the provider for :userAddressExternalEIP4361 from a SIWE message signed elsewhere
+ * @param signed The message and its signature
+ * @returns The provider to add to the condition context
+ * @throws When the message or signature is not acceptable
+ */
+export const createExternalAuthProvider = async (signed: SignedSiweMessage): Promise<SingleSignOnEIP4361AuthProvider> => {
+  await checkSignedSiweMessage(signed);
+  return SingleSignOnEIP4361AuthProvider.fromExistingSiweInfo(signed.message.trim(), signed.signature.trim());
+};
@@ -0,0 +1,135 @@
+/**
+ * Signed SIWE sessions, kept in localStorage per address and domain until they expire so
+ * decrypting one ciphertext after another does not ask the wallet to sign each time
+ */
+
+import { AuthSignature, authSignatureSchema } from '@nucypher/taco-auth';
+import { utils } from 'ethers';
+
+const SIWE_SESSIONS_STORAGE_KEY = 'taco-playground:siwe-sessions';
+// Dispatched on window when a session is saved or revoked in this tab
+export const SIWE_SESSIONS_EVENT = 'taco-playground:siwe-sessions';
+// Sessions this close to expiring are not reused, so they do not expire while the nodes check them
+const SESSION_MARGIN_MS = 60 * 1000;
+
+export interface SiweSession {
+  address: string;
+  domain: string;
+  // The statement and expiry the sign-in was made with; a session is only reused when they are unchanged
+  statement: string;
+  expiryMinutes: number | null;
+  authSignature: AuthSignature;
+  // When the nodes stop accepting the sign-in, in milliseconds
+  expiresAt: number;
+}
+
+// The SDK's EIP4361AuthProvider keeps its own sign-in per address under this key, and reuses it whatever
+// the statement or expiry it was signed with
+const getSdkStorageKey = (address: string): string => `eth-EIP4361-message-${utils.getAddress(address)}`;
+
+export type SiweSessionOptions = Pick<SiweSession, 'statement' | 'expiryMinutes'>;
+
+const isSameSession = (session: SiweSession, address: string, domain: string): boolean =>
+  session.address.toLowerCase() === address.toLowerCase() && session.domain === domain;
+
+const parseSession = (value: unknown): SiweSession | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const session = value as Record<string, unknown>;
+  const authSignature = authSignatureSchema.safeParse(session.authSignature);
+  // Sessions saved without their options cannot be matched to the options of a decryption
+  if (
+    typeof session.address !== 'string' ||
+    typeof session.domain !== 'string' ||
+    typeof session.statement !== 'string' ||
+    (session.expiryMinutes !== null && typeof session.expiryMinutes !== 'number') ||
+    typeof session.expiresAt !== 'number' ||
+    !authSignature.success
+  ) {
+    return null;
+  }
+  return {
+    address: session.address,
+    domain: session.domain,
+    statement: session.statement,
+    expiryMinutes: session.expiryMinutes,
+    authSignature: authSignature.data,
+    expiresAt: session.expiresAt
+  };
+};
+
+// Removes the SDK's sign-in for the address, so a revoked or replaced sign-in is not sent by the SDK either
+const clearSdkSession = (address: string): void => {
+  try {
+    localStorage.removeItem(getSdkStorageKey(address));
+  } catch (error) {
+    console.error('Failed to clear the SDK SIWE session:', error);
+  }
+};
+
+const storeSessions = (sessions: SiweSession[]): void => {
+  try {
+    localStorage.setItem(SIWE_SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    // Caching is best effort; the wallet is asked to sign again next time
+    console.error('Failed to save SIWE sessions:', error);
+  }
+  window.dispatchEvent(new Event(SIWE_SESSIONS_EVENT));
+};
+
+/**
+ * Reads the sessions that have not expired
+ * @param now The current time in milliseconds
+ * @returns The sessions, soonest to expire first
+ */
+export const loadSiweSessions = (now: number = Date.now()): SiweSession[] => {
+  try {
+    const stored = localStorage.getItem(SIWE_SESSIONS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .map(parseSession)
+      .filter((session): session is SiweSession => session !== null && session.expiresAt > now)
+      .sort((a, b) => a.expiresAt - b.expiresAt);
+  } catch (error) {
+    console.error('Failed to load SIWE sessions:', error);
+    return [];
+  }
+};
+
+/**
+ * Finds a session that can be reused for a decryption
+ * @param address The address signing in
+ * @param domain The domain the sign-in is for
+ * @param options The statement and expiry the sign-in is asked for with
+ * @returns The session, or null when the wallet has to sign
+ */
+export const findSiweSession = (address: string, domain: string, options: SiweSessionOptions): SiweSession | null =>
+  loadSiweSessions(Date.now() + SESSION_MARGIN_MS).find(session =>
+    isSameSession(session, address, domain) &&
+    session.statement === options.statement &&
+    session.expiryMinutes === options.expiryMinutes
+  ) ?? null;
+
+/**
+ * Keeps a signed sign-in for reuse, replacing any earlier session of the address on the domain
+ * @param session The session
+ */
+export const saveSiweSession = (session: SiweSession): void => {
+  clearSdkSession(session.address);
+  storeSessions([
+    ...loadSiweSessions().filter(existing => !isSameSession(existing, session.address, session.domain)),
+    session
+  ]);
+};
+
+/**
+ * Forgets a session before it expires, so the wallet is asked to sign again
+ * @param address The address of the session
+ * @param domain The domain of the session
+ */
+export const revokeSiweSession = (address: string, domain: string): void => {
+  clearSdkSession(address);
+  storeSessions(loadSiweSessions().filter(session => !isSameSession(session, address, domain)));
+};
@@ -0,0 +1,153 @@
+/**
+ * Dates, time zones and relative expressions for the timestamps compared by time conditions
+ */
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60
+};
+
+// "now", optionally followed by offsets such as "+ 7d" or "- 1h 30m"
+const RELATIVE_PATTERN = /^now((?:\s*[+-](?:\s*\d+\s*[smhdw])+)*)$/i;
+// A sign, or an amount that takes the last sign
+const OFFSET_PATTERN = /([+-])|(\d+)\s*([smhdw])/gi;
+// Date and time as written by a datetime-local picker; seconds and time are optional
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Lists the time zones that can be picked, UTC first
+ * @returns IANA time zone names
+ */
+export const getTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : [Intl.DateTimeFormat().resolvedOptions().timeZone];
+  return ['UTC', ...zones.filter(zone => zone !== 'UTC')];
+};
+
+/**
+ * Checks that a time zone is known to the browser
+ * @param timeZone An IANA time zone name, e.g. Europe/Berlin
+ * @returns True when dates can be formatted in the zone
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The wall-clock fields of an instant in a time zone
+const getZonedParts = (milliseconds: number, timeZone: string): number[] => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(milliseconds));
+  const field = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return [field('year'), field('month'), field('day'), field('hour'), field('minute'), field('second')];
+};
+
+// How far a time zone is ahead of UTC at an instant, in milliseconds
+const getZoneOffset = (milliseconds: number, timeZone: string): number => {
+  const [year, month, day, hour, minute, second] = getZonedParts(milliseconds, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(milliseconds / 1000) * 1000;
+};
+
+/**
+ * Reads a date and time written in a time zone
+ * @param text The date, e.g. 2025-01-01 or 2025-01-01T09:30
+ * @param timeZone The zone the date is written in
+ * @returns The UNIX timestamp in seconds
+ * @throws When the text is not a date or the zone is unknown
+ */
+export const parseZonedDateTime = (text: string, timeZone: string): number => {
+  const match = text.trim().match(LOCAL_DATE_TIME_PATTERN);
+  if (!match) {
+    throw new Error(`"${text}" is not a date; use YYYY-MM-DD or YYYY-MM-DDTHH:mm`);
+  }
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+
+  const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1).map(part => Number(part ?? 0));
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const [checkYear, checkMonth, checkDay] = getZonedParts(wallClock, 'UTC');
+  if (checkYear !== year || checkMonth !== month || checkDay !== day || hour > 23 || minute > 59 || second > 59) {
+    throw new Error(`"${text}" is not a valid date`);
+  }
+
+  // The offset is looked up again at the result, which differs from the first guess around DST changes
+  let milliseconds = wallClock - getZoneOffset(wallClock, timeZone);
+  milliseconds = wallClock - getZoneOffset(milliseconds, timeZone);
+  return Math.floor(milliseconds / 1000);
+};
+
+/**
+ * Writes a timestamp as a date and time in a time zone, in the format of a datetime-local picker
+ * @param timestamp The UNIX timestamp in seconds
+ * @param timeZone The zone to show the date in
+ * @returns The date, e.g. 2025-01-01T09:30
+ */
+export const formatZonedDateTime = (timestamp: number, timeZone: string): string => {
+  const [year, month, day, hour, minute] = getZonedParts(timestamp * 1000, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${String(year).padStart(4, '0')}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * Resolves a time expression to a timestamp
+ * @param text A UNIX timestamp in seconds, a date written in the time zone (see parseZonedDateTime),
+ * or a relative expression such as "now + 7d" (units s, m, h, d and w)
+ * @param timeZone The zone dates are written in
+ * @param now The current time in milliseconds, for relative expressions
+ * @returns The UNIX timestamp in seconds
+ * @throws When the expression cannot be read
+ */
+export const parseTimeExpression = (text: string, timeZone: string, now: number = Date.now()): number => {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+
+  const relative = trimmed.match(RELATIVE_PATTERN);
+  if (relative) {
+    let timestamp = Math.floor(now / 1000);
+    let direction = 1;
+    for (const [, sign, amount, unit] of Array.from(relative[1].matchAll(OFFSET_PATTERN))) {
+      if (sign) {
+        direction = sign === '-' ? -1 : 1;
+      } else {
+        timestamp += direction * Number(amount) * UNIT_SECONDS[unit.toLowerCase()];
+      }
+    }
+    return timestamp;
+  }
+
+  if (LOCAL_DATE_TIME_PATTERN.test(trimmed)) return parseZonedDateTime(trimmed, timeZone);
+
+  throw new Error(`"${text}" is not a time; use a date, a UNIX timestamp or an expression like "now + 7d"`);
+};
+
+/**
+ * Describes how long until (or since) a moment, e.g. "2d 4h" or "35s"
+ * @param seconds The distance in seconds; the sign is ignored
+ * @returns The two largest non-zero units
+ */
+export const formatDuration = (seconds: number): string => {
+  let remaining = Math.abs(Math.round(seconds));
+  const parts: string[] = [];
+  for (const [unit, size] of [['d', UNIT_SECONDS.d], ['h', UNIT_SECONDS.h], ['m', UNIT_SECONDS.m], ['s', 1]] as const) {
+    const count = Math.floor(remaining / size);
+    remaining -= count * size;
+    if (count > 0 || (unit === 's' && parts.length === 0)) parts.push(`${count}${unit}`);
+  }
+  return parts.slice(0, 2).join(' ');
+};
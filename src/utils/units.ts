@@ -0,0 +1,119 @@
+/**
+ * Exact conversion between human-readable amounts (ETH, gwei, token units) and
+ * the integer base units compared on chain
+ */
+
+import { BigNumber, utils } from 'ethers';
+
+export type AmountUnit = 'wei' | 'gwei' | 'ether' | 'tokens' | 'T' | 'base';
+
+export const NATIVE_UNITS: AmountUnit[] = ['ether', 'gwei', 'wei'];
+export const TOKEN_UNITS: AmountUnit[] = ['tokens', 'base'];
+// Threshold Network (T) token amounts, e.g. stakes
+export const T_UNITS: AmountUnit[] = ['T', 'base'];
+
+export const UNIT_LABELS: Record<AmountUnit, string> = {
+  wei: 'wei',
+  gwei: 'gwei',
+  ether: 'ETH',
+  tokens: 'tokens',
+  T: 'T',
+  base: 'base units'
+};
+
+const FIXED_UNIT_DECIMALS: Partial<Record<AmountUnit, number>> = {
+  wei: 0,
+  gwei: 9,
+  ether: 18,
+  T: 18,
+  base: 0
+};
+
+// Largest decimals value accepted for a token (ethers supports up to 77 fractional digits)
+const MAX_TOKEN_DECIMALS = 77;
+
+/**
+ * Resolves the number of decimals an amount in the given unit carries
+ * @param unit The unit the amount is written in
+ * @param tokenDecimals The token's decimals, used by the 'tokens' unit
+ * @returns The number of decimals
+ * @throws When the token decimals are missing or not a whole number in range
+ */
+export const getUnitDecimals = (unit: AmountUnit, tokenDecimals?: string): number => {
+  const fixed = FIXED_UNIT_DECIMALS[unit];
+  if (fixed !== undefined) return fixed;
+
+  const trimmed = (tokenDecimals ?? '').trim();
+  const decimals = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || decimals > MAX_TOKEN_DECIMALS) {
+    throw new Error(`Token decimals must be a whole number between 0 and ${MAX_TOKEN_DECIMALS}`);
+  }
+  return decimals;
+};
+
+/**
+ * Converts a human-readable amount to integer base units without going through floating point
+ * @param amount The amount, e.g. "1.5"
+ * @param decimals Number of decimals of the unit the amount is written in
+ * @returns The amount in base units as a decimal string
+ * @throws When the amount is not a non-negative number or has more fractional digits than the unit allows
+ */
+export const toBaseUnits = (amount: string, decimals: number): string => {
+  const trimmed = amount.trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) {
+    throw new Error(`"${amount}" is not a valid amount`);
+  }
+
+  const [, fraction = ''] = trimmed.split('.');
+  if (fraction.replace(/0+$/, '').length > decimals) {
+    throw new Error(`"${amount}" has more than ${decimals} decimal places`);
+  }
+
+  return utils.parseUnits(trimmed, decimals).toString();
+};
+
+/**
+ * Converts integer base units back to a human-readable amount
+ * @param baseUnits The amount in base units
+ * @param decimals Number of decimals of the target unit
+ * @returns The amount without trailing fractional zeros
+ */
+export const fromBaseUnits = (baseUnits: string, decimals: number): string => {
+  const formatted = utils.formatUnits(BigNumber.from(baseUnits), decimals);
+  return formatted.replace(/\.0+$/, '').replace(/(\.\d*?)0+$/, '$1');
+};
+
+/**
+ * Picks the largest native unit that represents a wei amount exactly, for display
+ * @param wei The amount in wei
+ * @returns The unit and the amount written in it
+ */
+export const toLargestNativeUnit = (wei: string): { unit: AmountUnit; amount: string } => {
+  const value = BigNumber.from(wei);
+  for (const unit of NATIVE_UNITS) {
+    const scale = BigNumber.from(10).pow(FIXED_UNIT_DECIMALS[unit] as number);
+    if (!value.isZero() && value.mod(scale).isZero()) {
+      return { unit, amount: value.div(scale).toString() };
+    }
+  }
+  return { unit: 'wei', amount: value.toString() };
+};
+
+/**
+ * Whether a string is a non-negative integer, e.g. an amount already in base units
+ * @param value The string to check
+ * @returns True for strings of digits only
+ */
+export const isIntegerString = (value: string): boolean => /^\d+$/.test(value.trim());
+
+/**
+ * Chooses the JSON representation of an integer for a returnValueTest: a number while it is
+ * exactly representable, and a decimal string beyond Number.MAX_SAFE_INTEGER
+ * @param integer A non-negative integer as a decimal string
+ * @returns The value to put in the condition
+ */
+export const toConditionInteger = (integer: string): number | string => {
+  const trimmed = integer.trim().replace(/^0+(?=\d)/, '');
+  const numeric = Number(trimmed);
+  return Number.isSafeInteger(numeric) ? numeric : trimmed;
+};